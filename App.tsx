@@ -1,30 +1,69 @@
 
-import { useState, useRef, useEffect } from 'react';
-import { Subject, Role, Attachment } from './types';
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { Subject, SubjectId, Role, Attachment, Message, MessageRating, PedagogyMode, ResponseSource } from './types';
 import { useFirestore, useChatList } from './hooks/useFirestore';
 import { useAI } from './hooks/useAI';
 import { useVoice } from './hooks/useVoice';
+import { useFlashcards } from './hooks/useFlashcards';
+import { useSubjects } from './hooks/useSubjects';
+import { useFeedback } from './hooks/useFeedback';
+import { useUsage } from './hooks/useUsage';
 import { ChatBubble } from './components/ChatBubble';
 import { SubjectSelector } from './components/SubjectSelector';
 import { SettingsModal } from './components/SettingsModal';
-import { signInWithPopup, signOut, auth, GoogleAuthProvider, onAuthStateChanged, signInAnonymously } from './firebase';
+import { FlashcardStudy } from './components/FlashcardStudy';
+import { DocumentImportModal } from './components/DocumentImportModal';
+import { SearchPanel } from './components/SearchPanel';
+import { ModeSelector } from './components/ModeSelector';
+import { SubjectManagerModal } from './components/SubjectManagerModal';
+import { FeedbackAnalytics } from './components/FeedbackAnalytics';
+import { flashcardsToMarkdown } from './services/flashcardService';
+import { isDueToday } from './services/srs';
+import { SearchResult } from './services/searchService';
+import { buildThread, selectionsToReveal, ROOT_BRANCH } from './services/branching';
+import { MAX_HINT_LEVEL, CONTINUE_PROMPT } from './services/ai/prompts';
+import { PracticeCheck, buildMistakePrompt, describeAttempt, practiceToMarkdown } from './services/practiceService';
+import { buildFeedbackEntry } from './services/feedbackService';
+import { formatLimitWarning } from './services/usageService';
+import { getProvider } from './services/ai/registry';
+import { describeFailure } from './services/ai/resilience';
+import { CODE_EXTENSIONS, describeAllowedFiles } from './services/subjects';
+import { chatToMarkdown, chatToHtml, chatToAnki, collectFlashcards, downloadFile, exportFileName, printHtml } from './services/exportService';
+import { extractDocumentText, hasExtension, PDF_EXTENSIONS, DOCUMENT_EXTENSIONS } from './services/documentService';
+import { blobToDataUrl } from './services/storage/blobUtils';
+import { signInWithPopup, signOut, auth, GoogleAuthProvider, onAuthStateChanged, signInAnonymously, isLocalMode } from './firebase';
+
+// Keeps a single message (and the request it produces) a reasonable size
+const MAX_ATTACHMENTS = 5;
 
 function App() {
-  const [activeSubject, setActiveSubject] = useState<Subject>(Subject.MATH);
+  const [activeSubject, setActiveSubject] = useState<SubjectId>(Subject.MATH);
+  const [activeChatId, setActiveChatId] = useState<string | null>(localStorage.getItem('activeChatId'));
   const [input, setInput] = useState('');
   const [user, setUser] = useState<any>(auth.currentUser);
   const [authError, setAuthError] = useState<string | null>(null);
-  const [attachment, setAttachment] = useState<Attachment | undefined>(undefined);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isSubjectManagerOpen, setIsSubjectManagerOpen] = useState(false);
+  const [isStudyOpen, setIsStudyOpen] = useState(false);
+  const [studyDeckId, setStudyDeckId] = useState<string | null>(null);
+  const [isAnalyticsOpen, setIsAnalyticsOpen] = useState(false);
+  const [pdfToImport, setPdfToImport] = useState<File | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const [enterToSend, setEnterToSend] = useState(localStorage.getItem('enterToSend') !== 'false');
+  const [voiceLanguage, setVoiceLanguage] = useState(localStorage.getItem('voiceLanguage') || 'en-US');
+  const [pushToTalk, setPushToTalk] = useState(localStorage.getItem('pushToTalk') === 'true');
 
   const [sessionPrompts, setSessionPrompts] = useState<string[]>([]);
+  const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
   // Listen for storage changes (SettingsModal updates)
   useEffect(() => {
     const handleStorage = () => {
       setEnterToSend(localStorage.getItem('enterToSend') !== 'false');
+      setVoiceLanguage(localStorage.getItem('voiceLanguage') || 'en-US');
+      setPushToTalk(localStorage.getItem('pushToTalk') === 'true');
     };
     window.addEventListener('storage', handleStorage);
     return () => window.removeEventListener('storage', handleStorage);
@@ -32,18 +71,96 @@ function App() {
   const bottomRef = useRef<HTMLDivElement>(null);
 
   // Custom Hooks
-  const { messages, addMessage, loadingHistory, userId, createNewChat } = useFirestore(activeSubject);
+  const { messages, addMessage, updateMessage, loadingHistory, userId, createNewChat, updateChat } = useFirestore(activeChatId);
   const { sessions: chatSessions, loading: loadingSessions } = useChatList();
-  const { sendMessage, isLoading: isThinking, statusMessage } = useAI();
-  const { isListening, transcript, startListening, stopListening, resetTranscript } = useVoice();
+  const { subjects, customSubjects, getSubject, saveSubject, deleteSubject } = useSubjects();
+  const currentSubject = getSubject(activeSubject);
+
+  // Remember the open thread across reloads
+  useEffect(() => {
+    if (activeChatId) {
+      localStorage.setItem('activeChatId', activeChatId);
+    } else {
+      localStorage.removeItem('activeChatId');
+    }
+  }, [activeChatId]);
+
+  // Keep the subject in sync with the open thread (e.g. after a reload)
+  const activeSession = chatSessions.find(session => session.id === activeChatId);
+  useEffect(() => {
+    if (activeSession) setActiveSubject(activeSession.subject);
+  }, [activeSession?.subject]);
+
+  // The conversation as shown: one path through any edited or regenerated messages
+  const thread = useMemo(() => buildThread(messages, activeSession?.activeBranches), [messages, activeSession?.activeBranches]);
+  const [replacingMessageId, setReplacingMessageId] = useState<string | null>(null);
+  const visibleMessages = replacingMessageId
+    ? thread.path.slice(0, Math.max(0, thread.path.findIndex(msg => msg.id === replacingMessageId)))
+    : thread.path;
+  const lastMessageId = thread.path.length > 0 ? thread.path[thread.path.length - 1].id : null;
+  // "Next problem" is offered on the most recent practice problem only
+  const latestPracticeId = [...thread.path].reverse().find(msg => msg.practice)?.id;
+
+  // Pedagogy mode is stored per chat; the last choice carries over to new chats
+  const [draftMode, setDraftMode] = useState<PedagogyMode>(PedagogyMode.EXPLAIN);
+  const pedagogyMode = activeSession ? activeSession.mode || PedagogyMode.EXPLAIN : draftMode;
+  const lastUserMessage = [...thread.path].reverse().find(msg => msg.role === Role.USER);
+  const nextHintLevel = (lastUserMessage?.hintLevel || 1) + 1;
+  const canAskForHint = pedagogyMode === PedagogyMode.HINTS && !!lastUserMessage && nextHintLevel <= MAX_HINT_LEVEL;
+
+  const handleSelectMode = (mode: PedagogyMode) => {
+    setDraftMode(mode);
+    if (activeChatId) updateChat(activeChatId, { mode });
+  };
+
+  const selectBranch = (chatId: string, parentKey: string, childId: string) =>
+    updateChat(chatId, { activeBranches: { ...(activeSession?.activeBranches || {}), [parentKey]: childId } });
 
-  // Sync Voice Transcript to Input
+  // Search can point into a branch that is not selected; switch to it
   useEffect(() => {
-    if (transcript) {
-      setInput(prev => prev + transcript);
-      resetTranscript();
+    if (!highlightedMessageId || !activeChatId || !activeSession) return;
+    if (messages.some(msg => msg.id === highlightedMessageId) && !thread.path.some(msg => msg.id === highlightedMessageId)) {
+      updateChat(activeChatId, { activeBranches: selectionsToReveal(messages, activeSession.activeBranches || {}, highlightedMessageId) });
     }
-  }, [transcript, resetTranscript]);
+  }, [highlightedMessageId, messages, thread]);
+  const { sendMessage, generateQuiz, generateFlashcards, generatePracticeProblem, isLoading: isThinking, statusMessage } = useAI();
+  const { decks, createDeck, reviewCard } = useFlashcards();
+  const { recordFeedback, loadFeedback } = useFeedback();
+  const { warnings: usageWarnings } = useUsage();
+  const [dismissedUsageWarning, setDismissedUsageWarning] = useState<string | null>(null);
+
+  // Soft limits from Settings > Usage; a dismissed warning comes back once the limit is actually reached
+  const usageWarning = usageWarnings[0];
+  const usageWarningKey = usageWarning && `${usageWarning.providerId}:${usageWarning.metric}:${usageWarning.used >= usageWarning.limit}`;
+  const usageWarningText = usageWarning && usageWarningKey !== dismissedUsageWarning
+    ? formatLimitWarning(usageWarning, getProvider(usageWarning.providerId)?.label || usageWarning.providerId)
+    : null;
+  const dueCardCount = decks.reduce((total, deck) => total + deck.cards.filter(card => isDueToday(card)).length, 0);
+  // Each finished phrase is appended to the input exactly once
+  const { isListening, interimTranscript, startListening, stopListening, error: voiceError, clearError: clearVoiceError } = useVoice({
+    lang: voiceLanguage,
+    onFinalTranscript: (text) => setInput(prev => (prev && !/\s$/.test(prev) ? `${prev} ${text}` : prev + text))
+  });
+
+  // Push-to-talk: hold Alt+M anywhere in the app
+  useEffect(() => {
+    if (!pushToTalk) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.altKey && e.code === 'KeyM') {
+        e.preventDefault();
+        if (!e.repeat) startListening();
+      }
+    };
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (e.code === 'KeyM' || e.key === 'Alt') stopListening();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+    };
+  }, [pushToTalk, startListening, stopListening]);
 
   // Auth Listener
   useEffect(() => {
@@ -86,55 +203,94 @@ function App() {
     fileInputRef.current?.click();
   };
 
-  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const fileType = file.type;
-      const fileName = file.name;
-
-      // Subject Restrictions
-      if (activeSubject === Subject.CODING) {
-        const allowedExtensions = ['.py', '.js', '.html', '.css', '.ts', '.json'];
-        const isAllowed = allowedExtensions.some(ext => fileName.toLowerCase().endsWith(ext));
-
-        if (isAllowed) {
-          const textInfo = await file.text();
-          setAttachment({
-            content: textInfo,
-            type: 'text',
-            fileName: fileName,
-            mimeType: fileType
-          });
-          return;
-        }
+  // Reads one picked file into an attachment, or returns null if this subject does not accept it
+  const readAttachment = async (file: File): Promise<Attachment | null> => {
+    const fileType = file.type;
+    const fileName = file.name;
+
+    // Documents work for every subject
+    if (hasExtension(fileName, DOCUMENT_EXTENSIONS)) {
+      return extractDocumentText(file);
+    }
+
+    // Subject Restrictions
+    if (currentSubject.attachmentKinds.includes('code')) {
+      if (hasExtension(fileName, CODE_EXTENSIONS)) {
+        return {
+          content: await file.text(),
+          type: 'text',
+          fileName: fileName,
+          mimeType: fileType
+        };
       }
+    }
 
-      if ([Subject.MATH, Subject.PHYSICS, Subject.CHEMISTRY, Subject.BIOLOGY].includes(activeSubject)) {
-        // Allow images
-        if (fileType.startsWith('image/')) {
-          const reader = new FileReader();
-          reader.onload = (event) => {
-            if (event.target?.result) {
-              setAttachment({
-                content: event.target.result as string,
-                type: 'image',
-                fileName: fileName,
-                mimeType: fileType
-              });
-            }
-          };
-          reader.readAsDataURL(file);
-          return;
-        }
+    if (currentSubject.attachmentKinds.includes('images')) {
+      // Allow images
+      if (fileType.startsWith('image/')) {
+        return {
+          content: await blobToDataUrl(file),
+          type: 'image',
+          fileName: fileName,
+          mimeType: fileType
+        };
+      }
+    }
+
+    return null;
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Reset input so the same file can be picked again
+    if (files.length === 0) return;
+
+    // PDFs open the page picker first, so only one can be imported per selection
+    const pdfs = files.filter(file => hasExtension(file.name, PDF_EXTENSIONS));
+    const pdf = pdfs[0];
+    if (pdf) setPdfToImport(pdf);
+    if (pdfs.length > 1) {
+      alert(`Only one PDF can be imported at a time. Importing ${pdf.name}; attach the others separately: ${pdfs.slice(1).map(file => file.name).join(', ')}`);
+    }
+
+    const room = MAX_ATTACHMENTS - attachments.length - (pdf ? 1 : 0);
+    const others = files.filter(file => !hasExtension(file.name, PDF_EXTENSIONS));
+    if (others.length > room) {
+      alert(`You can attach up to ${MAX_ATTACHMENTS} files per message.`);
+    }
+
+    const rejected: string[] = [];
+    const added: Attachment[] = [];
+    for (const file of others.slice(0, Math.max(0, room))) {
+      try {
+        const attachment = await readAttachment(file);
+        if (attachment) added.push(attachment);
+        else rejected.push(file.name);
+      } catch (err) {
+        console.error("Failed to read attachment", err);
+        rejected.push(file.name);
       }
+    }
+    if (added.length > 0) setAttachments(prev => [...prev, ...added]);
 
-      // Default/Fallback Logic or Error
-      alert(`File type not supported for ${activeSubject}. \nCoding: .py, .js, .html\nScience/Math: Images`);
-      e.target.value = ''; // Reset input
+    // Default/Fallback Logic or Error
+    if (rejected.length > 0) {
+      alert(`File type not supported for ${currentSubject.name}: ${rejected.join(', ')}\nAllowed: ${describeAllowedFiles(currentSubject)}`);
     }
   };
 
+  // Stable so rendered code blocks keep their run output across re-renders
+  const handleAttachRun = useCallback((attachment: Attachment) => {
+    setAttachments(prev => [...prev, attachment].slice(0, MAX_ATTACHMENTS));
+    textareaRef.current?.focus();
+  }, []);
+
+  const removeAttachment = (index: number) => {
+    setAttachments(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleVoice = () => {
+    if (pushToTalk) return; // Handled by press and release below
     if (isListening) {
       stopListening();
     } else {
@@ -142,14 +298,45 @@ function App() {
     }
   };
 
-  const handleNewChat = () => {
-    createNewChat();
+  const handleNewChat = async () => {
+    const chatId = await createNewChat(activeSubject);
+    if (chatId) setActiveChatId(chatId);
+    setHighlightedMessageId(null);
+    setIsMobileMenuOpen(false);
   };
 
-  // Scroll to bottom on new message
+  const handleSelectChat = (chatId: string, subject: SubjectId) => {
+    setActiveChatId(chatId);
+    setActiveSubject(subject);
+    setHighlightedMessageId(null);
+    setIsMobileMenuOpen(false);
+  };
+
+  const handleOpenSearchResult = (result: SearchResult) => {
+    setActiveChatId(result.chatId);
+    setActiveSubject(result.subject);
+    setHighlightedMessageId(result.messageId);
+    setIsMobileMenuOpen(false);
+  };
+
+  // Switching subject re-labels an empty thread, otherwise it starts a fresh one
+  const handleSelectSubject = (subject: SubjectId) => {
+    setActiveSubject(subject);
+    if (activeChatId && messages.length === 0) {
+      updateChat(activeChatId, { subject });
+    } else if (subject !== activeSubject) {
+      setActiveChatId(null);
+    }
+  };
+
+  // Scroll to bottom on new message, or to the message a search result points at
   useEffect(() => {
+    if (highlightedMessageId && visibleMessages.some(msg => msg.id === highlightedMessageId)) {
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      return;
+    }
     bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages, isThinking]);
+  }, [thread, isThinking, streamingMessage, highlightedMessageId]);
 
   // Textarea auto-resize logic
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -161,38 +348,269 @@ function App() {
     }
   }, [input]);
 
+  // Threads are created lazily when the first message is sent
+  const ensureChat = async () => {
+    if (activeChatId) return activeChatId;
+    const chatId = await createNewChat(activeSubject);
+    if (!chatId) return null;
+    setActiveChatId(chatId);
+    if (pedagogyMode !== PedagogyMode.EXPLAIN) await updateChat(chatId, { mode: pedagogyMode });
+    return chatId;
+  };
+
   const handleSubmit = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
     if (!input.trim() || isThinking || !userId) return;
 
     const userText = input.trim();
+    setHighlightedMessageId(null);
     setInput(''); // Clear immediately
 
+    const chatId = await ensureChat();
+    if (!chatId) return;
+
     // 1. Optimistic Update / Persistence
-    await addMessage(userText, Role.USER, attachment);
+    const history = chatId === activeChatId ? thread.path : [];
+    const parentId = history.length > 0 ? history[history.length - 1].id : null;
+    const messageId = await addMessage(userText, Role.USER, { attachments, parentId }, chatId);
+    if (!messageId) return;
 
-    // 2. Call Gemini
-    try {
-      // Add to session prompts if not exists
-      if (!sessionPrompts.includes(userText)) {
-        setSessionPrompts(prev => [...prev, userText]);
-      }
+    // Add to session prompts if not exists
+    if (!sessionPrompts.includes(userText)) {
+      setSessionPrompts(prev => [...prev, userText]);
+    }
 
-      const response = await sendMessage(userText, activeSubject, messages, attachment);
+    // 2. Call the tutor
+    await generateReply(chatId, { id: messageId, text: userText, attachments }, history);
 
-      // Clear attachment after send
-      setAttachment(undefined);
-      if (fileInputRef.current) fileInputRef.current.value = '';
+    // Clear attachments after send
+    setAttachments([]);
+  };
 
-      // 3. Persist Response
-      await addMessage(response, Role.MODEL);
+  // Streams the tutor's answer into a live bubble. `shownBefore` is text the bubble already starts with (when continuing).
+  const streamReply = async (chatId: string, prompt: { text: string; attachments?: Attachment[]; hintLevel?: number }, history: Message[], shownBefore = '') => {
+    const summary = activeSession?.id === chatId ? activeSession.summary : undefined;
+    let truncated = false;
+    let source: ResponseSource | undefined;
+    const text = await sendMessage({
+      text: prompt.text,
+      subject: currentSubject,
+      previousMessages: history,
+      attachments: prompt.attachments,
+      onToken: (partialText) => {
+        setStreamingMessage(partialText ? {
+          id: 'streaming',
+          role: Role.MODEL,
+          content: shownBefore + partialText,
+          timestamp: new Date(),
+          isStreaming: true
+        } : null);
+      },
+      // Older turns are folded into a summary stored with the chat; it only applies to the branch it was made on
+      summary: summary && history.some(msg => msg.id === summary.throughMessageId) ? summary : undefined,
+      onSummaryUpdate: (nextSummary) => updateChat(chatId, { summary: nextSummary }),
+      mode: pedagogyMode,
+      hintLevel: prompt.hintLevel,
+      onTruncated: () => { truncated = true; },
+      onSource: (answeredBy) => { source = answeredBy; }
+    });
+    return { text, truncated, source };
+  };
+
+  // Answers `prompt` and stores the answer as the prompt's child. Returns the new message id.
+  const generateReply = async (chatId: string, prompt: { id: string; text: string; attachments?: Attachment[]; hintLevel?: number }, history: Message[]) => {
+    try {
+      const { text, truncated, source } = await streamReply(chatId, prompt, history);
+
+      // 3. Persist Response (only once the stream has completed)
+      return await addMessage(text, Role.MODEL, { parentId: prompt.id, truncated: truncated || undefined, source }, chatId);
     } catch (error) {
       console.error("Failed to get response", error);
-      // Optional: Add visible error feedback to user
-      await addMessage("Sorry, I'm having trouble connecting to the AI tutor right now. Please try again later.", Role.MODEL);
+      // Says whether it was a rate limit, a bad key, the network, a safety block or the provider itself
+      return await addMessage(describeFailure(error), Role.MODEL, { parentId: prompt.id }, chatId);
+    } finally {
+      setStreamingMessage(null);
+    }
+  };
+
+  // Picks up an answer that stopped at the output length limit and appends the rest to it
+  const handleContinue = async (message: Message) => {
+    if (!activeChatId || isThinking) return;
+    const chatId = activeChatId;
+    const history = thread.path.slice(0, thread.path.findIndex(msg => msg.id === message.id) + 1);
+
+    setReplacingMessageId(message.id);
+    try {
+      const { text, truncated } = await streamReply(chatId, { text: CONTINUE_PROMPT }, history, message.content);
+      await updateMessage(message.id, { content: message.content + text, truncated }, chatId);
+    } catch (error) {
+      console.error("Failed to continue response", error);
+      alert("Sorry, I couldn't continue that answer. Please try again.");
+    } finally {
+      setStreamingMessage(null);
+      setReplacingMessageId(null);
+    }
+  };
+
+  // Editing stores the new text as a sibling of the original and answers it from the same point
+  const handleEditMessage = async (message: Message, text: string) => {
+    if (!activeChatId || isThinking || !text.trim()) return;
+    const chatId = activeChatId;
+    const history = thread.path.slice(0, thread.path.findIndex(msg => msg.id === message.id));
+    const parentId = history.length > 0 ? history[history.length - 1].id : null;
+
+    const messageId = await addMessage(text.trim(), Role.USER, { attachments: message.attachments, parentId }, chatId);
+    if (!messageId) return;
+    await selectBranch(chatId, parentId || ROOT_BRANCH, messageId);
+    await generateReply(chatId, { id: messageId, text: text.trim(), attachments: message.attachments }, history);
+  };
+
+  // A new answer to the same question, kept next to the old one
+  const handleRegenerate = async (message: Message) => {
+    if (!activeChatId || isThinking) return;
+    const chatId = activeChatId;
+    const index = thread.path.findIndex(msg => msg.id === message.id);
+    const prompt = thread.path[index - 1];
+    if (!prompt || prompt.role !== Role.USER) return;
+
+    setReplacingMessageId(message.id);
+    try {
+      const messageId = await generateReply(chatId, { id: prompt.id, text: prompt.content, attachments: prompt.attachments, hintLevel: prompt.hintLevel }, thread.path.slice(0, index - 1));
+      if (messageId) await selectBranch(chatId, prompt.id, messageId);
+    } finally {
+      setReplacingMessageId(null);
+    }
+  };
+
+  // Hint mode: each request unlocks the next, more detailed level of help with the same problem
+  const handleNextHint = async () => {
+    if (!activeChatId || isThinking || !canAskForHint) return;
+    const chatId = activeChatId;
+    const text = nextHintLevel === MAX_HINT_LEVEL ? "Show me the full solution." : "Can I have another hint?";
+    setHighlightedMessageId(null);
+
+    const messageId = await addMessage(text, Role.USER, { parentId: lastMessageId, hintLevel: nextHintLevel }, chatId);
+    if (!messageId) return;
+    await generateReply(chatId, { id: messageId, text, hintLevel: nextHintLevel }, thread.path);
+  };
+
+  const handleSwitchBranch = (messageId: string, direction: -1 | 1) => {
+    const branch = thread.branches.get(messageId);
+    const target = branch?.siblingIds[branch.index + direction];
+    if (!activeChatId || !branch || !target) return;
+    selectBranch(activeChatId, branch.parentKey, target);
+  };
+
+  const handleGenerateQuiz = async () => {
+    if (thread.path.length === 0 || !activeChatId) {
+      alert("Start a conversation first before generating a quiz.");
+      return;
+    }
+    if (isThinking) return;
+
+    const chatId = activeChatId;
+    try {
+      const quiz = await generateQuiz(currentSubject, thread.path);
+      await addMessage(`Quiz: ${quiz.title}`, Role.MODEL, { quiz, parentId: lastMessageId }, chatId);
+    } catch (error) {
+      console.error("Failed to generate quiz", error);
+      await addMessage("Sorry, I couldn't put a quiz together right now. Please try again later.", Role.MODEL, { parentId: lastMessageId }, chatId);
+    }
+  };
+
+  // Practice problems also work in a new chat: the tutor then picks a typical problem for the subject
+  const handleGeneratePractice = async () => {
+    if (isThinking || !userId) return;
+    const chatId = await ensureChat();
+    if (!chatId) return;
+
+    const history = chatId === activeChatId ? thread.path : [];
+    const parentId = history.length > 0 ? history[history.length - 1].id : null;
+    try {
+      const practice = await generatePracticeProblem(currentSubject, history);
+      await addMessage(practiceToMarkdown(practice), Role.MODEL, { practice, parentId }, chatId);
+    } catch (error) {
+      console.error("Failed to generate practice problem", error);
+      await addMessage("Sorry, I couldn't come up with a practice problem right now. Please try again later.", Role.MODEL, { parentId }, chatId);
     }
   };
 
+  // The verdict is stored right away; only wrong answers go to the tutor for an explanation
+  const handlePracticeAnswer = async (message: Message, response: string, check: PracticeCheck) => {
+    if (!activeChatId || !message.practice) return;
+    const chatId = activeChatId;
+    const problem = message.practice;
+    const attempts = [...(problem.attempts || []), { response, correct: check.correct, feedback: check.feedback }];
+    await updateMessage(message.id, { practice: { ...problem, attempts } }, chatId);
+    if (check.correct || isThinking) return;
+
+    const text = `My answer: ${describeAttempt(problem, response)}`;
+    const messageId = await addMessage(text, Role.USER, { parentId: lastMessageId }, chatId);
+    if (!messageId) return;
+    await generateReply(chatId, { id: messageId, text: buildMistakePrompt(problem, response, check) }, thread.path);
+  };
+
+  // Saved on the message so it survives reloads, and as a feedback entry for the analytics view
+  const handleRate = async (message: Message, rating: MessageRating) => {
+    if (!activeChatId) return;
+    const chatId = activeChatId;
+    await updateMessage(message.id, { rating }, chatId);
+    await recordFeedback(buildFeedbackEntry(message, chatId, activeSession?.subject || activeSubject, rating));
+  };
+
+  const handleExport = async (format: 'markdown' | 'html' | 'pdf' | 'anki') => {
+    if (thread.path.length === 0 || !activeSession) {
+      alert("Start a conversation first before exporting it.");
+      return;
+    }
+
+    // Exports show the subject's name, not its id
+    const chat = { ...activeSession, subject: currentSubject.name };
+    try {
+      if (format === 'markdown') {
+        downloadFile(exportFileName(chat, 'md'), chatToMarkdown(chat, thread.path), 'text/markdown');
+      } else if (format === 'html') {
+        downloadFile(exportFileName(chat, 'html'), await chatToHtml(chat, thread.path), 'text/html');
+      } else if (format === 'pdf') {
+        await printHtml(() => chatToHtml(chat, thread.path));
+      } else {
+        const cards = collectFlashcards(thread.path);
+        if (cards.length === 0) {
+          alert("This chat has no flashcards yet. Use \"Make Flashcards\" first.");
+          return;
+        }
+        downloadFile(exportFileName(chat, 'txt'), chatToAnki(chat, cards), 'text/plain');
+      }
+    } catch (error) {
+      console.error("Export failed", error);
+      alert("Sorry, the export failed. Please try again.");
+    }
+  };
+
+  const handleMakeFlashcards = async () => {
+    if (thread.path.length === 0 || !activeChatId) {
+      alert("Start a conversation first before creating flashcards.");
+      return;
+    }
+    if (isThinking) return;
+
+    const chatId = activeChatId;
+    try {
+      const { title, cards } = await generateFlashcards(currentSubject, thread.path);
+      const deckId = await createDeck(title, activeSubject, cards, chatId);
+      await addMessage(flashcardsToMarkdown(title, cards), Role.MODEL, { deckId: deckId || undefined, parentId: lastMessageId }, chatId);
+    } catch (error) {
+      console.error("Failed to make flashcards", error);
+      await addMessage("Sorry, I couldn't make flashcards right now. Please try again later.", Role.MODEL, { parentId: lastMessageId }, chatId);
+    }
+  };
+
+  const handleOpenStudy = (deckId: string | null = null) => {
+    setStudyDeckId(deckId);
+    setIsStudyOpen(true);
+    setIsMobileMenuOpen(false);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (enterToSend) {
       if (e.key === 'Enter' && !e.shiftKey) {
@@ -212,7 +630,21 @@ function App() {
   return (
     <div className="flex h-screen w-full overflow-hidden bg-white dark:bg-black text-zinc-900 dark:text-zinc-100 font-sans">
 
-      <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} user={user} />
+      <SettingsModal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} user={user} subjects={subjects} activeSubject={activeSubject} />
+      <FlashcardStudy isOpen={isStudyOpen} onClose={() => setIsStudyOpen(false)} decks={decks} onReview={reviewCard} initialDeckId={studyDeckId} subjects={subjects} />
+      <FeedbackAnalytics isOpen={isAnalyticsOpen} onClose={() => setIsAnalyticsOpen(false)} onLoad={loadFeedback} subjects={subjects} canViewAllUsers={!isLocalMode} />
+      <SubjectManagerModal
+        isOpen={isSubjectManagerOpen}
+        onClose={() => setIsSubjectManagerOpen(false)}
+        customSubjects={customSubjects}
+        onSave={saveSubject}
+        onDelete={deleteSubject}
+      />
+      <DocumentImportModal
+        file={pdfToImport}
+        onClose={() => setPdfToImport(null)}
+        onImport={(imported) => { setAttachments(prev => [...prev, ...imported].slice(0, MAX_ATTACHMENTS)); setPdfToImport(null); }}
+      />
 
       {/* Mobile Sidebar Overlay */}
       {isMobileMenuOpen && (
@@ -230,68 +662,103 @@ function App() {
             <span className="material-symbols-outlined text-[20px]">add</span>
             <span>New Chat</span>
           </button>
+          <button onClick={() => handleOpenStudy()} className="mt-2 w-full flex items-center gap-2 py-2 px-3 rounded-lg text-sm font-medium text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-800 transition-colors">
+            <span className="material-symbols-outlined text-[20px] text-zinc-400">style</span>
+            <span className="flex-1 text-left">Flashcards</span>
+            {dueCardCount > 0 && (
+              <span className="text-xs font-semibold bg-zinc-900 dark:bg-white text-white dark:text-black rounded-full px-2 py-0.5">{dueCardCount} due</span>
+            )}
+          </button>
+          <button onClick={() => setIsAnalyticsOpen(true)} className="mt-1 w-full flex items-center gap-2 py-2 px-3 rounded-lg text-sm font-medium text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-800 transition-colors">
+            <span className="material-symbols-outlined text-[20px] text-zinc-400">monitoring</span>
+            <span className="flex-1 text-left">Feedback</span>
+          </button>
         </div>
-        <div className="flex-1 overflow-y-auto px-3 py-2 space-y-6">
-          <div>
-            <h3 className="px-3 text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">My Chats</h3>
-            <div className="flex flex-col gap-1">
-              {loadingSessions ? (
-                <div className="text-zinc-500 text-xs px-3">Loading...</div>
-              ) : chatSessions.length === 0 ? (
-                <div className="text-zinc-500 text-xs px-3">No chats yet.</div>
-              ) : (
-                chatSessions.map(session => (
-                  <button
-                    key={session.id}
-                    onClick={() => setActiveSubject(session.subject)}
-                    className={`flex items-center gap-3 w-full px-3 py-2 rounded-lg font-medium text-sm transition-colors text-left group border ${activeSubject === session.subject ? 'bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-white border-zinc-300 dark:border-zinc-700' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-800/50 border-transparent'}`}
-                  >
-                    <span className={`material-symbols-outlined text-[20px] ${activeSubject === session.subject ? 'text-zinc-900 dark:text-white' : 'text-zinc-400'}`}>
-                      {session.subject === Subject.MATH ? 'calculate' :
-                        session.subject === Subject.PHYSICS ? 'science' :
-                          session.subject === Subject.CHEMISTRY ? 'biotech' :
-                            session.subject === Subject.CODING ? 'code' : 'school'}
-                    </span>
-                    <span className="truncate">{session.subject}</span>
-                  </button>
-                ))
-              )}
+        <SearchPanel sessions={chatSessions} subjects={subjects} onOpenResult={handleOpenSearchResult}>
+          <div className="flex-1 overflow-y-auto px-3 py-2 space-y-6">
+            <div>
+              <h3 className="px-3 text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">My Chats</h3>
+              <div className="flex flex-col gap-1">
+                {loadingSessions ? (
+                  <div className="text-zinc-500 text-xs px-3">Loading...</div>
+                ) : chatSessions.length === 0 ? (
+                  <div className="text-zinc-500 text-xs px-3">No chats yet.</div>
+                ) : (
+                  chatSessions.map(session => (
+                    <button
+                      key={session.id}
+                      onClick={() => handleSelectChat(session.id, session.subject)}
+                      className={`flex items-center gap-3 w-full px-3 py-2 rounded-lg font-medium text-sm transition-colors text-left group border ${activeChatId === session.id ? 'bg-zinc-200 dark:bg-zinc-800 text-zinc-900 dark:text-white border-zinc-300 dark:border-zinc-700' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-800/50 border-transparent'}`}
+                    >
+                      <span className={`material-symbols-outlined text-[20px] ${activeChatId === session.id ? 'text-zinc-900 dark:text-white' : 'text-zinc-400'}`}>
+                        {getSubject(session.subject).icon}
+                      </span>
+                      <span className="flex flex-col min-w-0">
+                        <span className="truncate">{session.title || 'New Chat'}</span>
+                        <span className="text-xs font-normal text-zinc-500 truncate">{getSubject(session.subject).name}</span>
+                      </span>
+                    </button>
+                  ))
+                )}
+              </div>
             </div>
-          </div>
-          <div>
-            <h3 className="px-3 text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Suggested</h3>
-            <div className="flex flex-col gap-1">
-              {!user || user.isAnonymous ? (
-                <>
-                  <button onClick={() => setActiveSubject(Subject.MATH)} className="flex items-center gap-3 w-full px-3 py-2 rounded-lg hover:bg-zinc-200 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-300 font-medium text-sm transition-colors text-left group">
-                    <span className="material-symbols-outlined text-[20px] text-zinc-400 group-hover:text-zinc-600 dark:group-hover:text-zinc-200">calculate</span>
-                    <span className="truncate">Algebra Basics</span>
-                  </button>
-                  <button onClick={() => setActiveSubject(Subject.HISTORY)} className="flex items-center gap-3 w-full px-3 py-2 rounded-lg hover:bg-zinc-200 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-300 font-medium text-sm transition-colors text-left group">
-                    <span className="material-symbols-outlined text-[20px] text-zinc-400 group-hover:text-zinc-600 dark:group-hover:text-zinc-200">history_edu</span>
-                    <span className="truncate">World War II</span>
-                  </button>
-                </>
-              ) : (
-                <>
-                  <button onClick={() => setActiveSubject(Subject.PHYSICS)} className="flex items-center gap-3 w-full px-3 py-2 rounded-lg hover:bg-zinc-200 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-300 font-medium text-sm transition-colors text-left group">
-                    <span className="material-symbols-outlined text-[20px] text-zinc-400 group-hover:text-zinc-600 dark:group-hover:text-zinc-200">science</span>
-                    <span className="truncate">Physics Help</span>
-                  </button>
-                  <button onClick={() => setActiveSubject(Subject.CODING)} className="flex items-center gap-3 w-full px-3 py-2 rounded-lg hover:bg-zinc-200 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-300 font-medium text-sm transition-colors text-left group">
-                    <span className="material-symbols-outlined text-[20px] text-zinc-400 group-hover:text-zinc-600 dark:group-hover:text-zinc-200">code</span>
-                    <span className="truncate">Coding Assistant</span>
+            <div>
+              <h3 className="px-3 text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Suggested</h3>
+              <div className="flex flex-col gap-1">
+                {!user || user.isAnonymous ? (
+                  <>
+                    <button onClick={() => handleSelectSubject(Subject.MATH)} className="flex items-center gap-3 w-full px-3 py-2 rounded-lg hover:bg-zinc-200 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-300 font-medium text-sm transition-colors text-left group">
+                      <span className="material-symbols-outlined text-[20px] text-zinc-400 group-hover:text-zinc-600 dark:group-hover:text-zinc-200">calculate</span>
+                      <span className="truncate">Algebra Basics</span>
+                    </button>
+                    <button onClick={() => handleSelectSubject(Subject.HISTORY)} className="flex items-center gap-3 w-full px-3 py-2 rounded-lg hover:bg-zinc-200 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-300 font-medium text-sm transition-colors text-left group">
+                      <span className="material-symbols-outlined text-[20px] text-zinc-400 group-hover:text-zinc-600 dark:group-hover:text-zinc-200">history_edu</span>
+                      <span className="truncate">World War II</span>
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button onClick={() => handleSelectSubject(Subject.PHYSICS)} className="flex items-center gap-3 w-full px-3 py-2 rounded-lg hover:bg-zinc-200 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-300 font-medium text-sm transition-colors text-left group">
+                      <span className="material-symbols-outlined text-[20px] text-zinc-400 group-hover:text-zinc-600 dark:group-hover:text-zinc-200">science</span>
+                      <span className="truncate">Physics Help</span>
+                    </button>
+                    <button onClick={() => handleSelectSubject(Subject.CODING)} className="flex items-center gap-3 w-full px-3 py-2 rounded-lg hover:bg-zinc-200 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-300 font-medium text-sm transition-colors text-left group">
+                      <span className="material-symbols-outlined text-[20px] text-zinc-400 group-hover:text-zinc-600 dark:group-hover:text-zinc-200">code</span>
+                      <span className="truncate">Coding Assistant</span>
+                    </button>
+                  </>
+                )}
+                {customSubjects.map(subject => (
+                  <button key={subject.id} onClick={() => handleSelectSubject(subject.id)} className="flex items-center gap-3 w-full px-3 py-2 rounded-lg hover:bg-zinc-200 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-300 font-medium text-sm transition-colors text-left group">
+                    <span className="material-symbols-outlined text-[20px] text-zinc-400 group-hover:text-zinc-600 dark:group-hover:text-zinc-200">{subject.icon}</span>
+                    <span className="truncate">{subject.name}</span>
                   </button>
-                </>
-              )}
+                ))}
+              </div>
             </div>
           </div>
-        </div>
+        </SearchPanel>
         <div className="p-4 border-t border-zinc-200 dark:border-zinc-800">
-          {!user || user.isAnonymous ? (
-            <button onClick={handleSignIn} className="flex items-center justify-center gap-2 w-full py-2.5 rounded-lg bg-zinc-900 hover:bg-zinc-800 text-white transition-colors font-medium">
-              <span>Sign In</span>
-            </button>
+          {/* Settings hold per-device preferences too, so they're reachable without an account */}
+          {isLocalMode ? (
+            <div className="flex items-center gap-2 w-full">
+              <div className="flex-1 flex items-center gap-2 px-2 py-2 text-sm text-zinc-500" title="Chats are stored in this browser only">
+                <span className="material-symbols-outlined text-[20px]">cloud_off</span>
+                <span>Local mode</span>
+              </div>
+              <button onClick={() => setIsSettingsOpen(true)} className="text-zinc-500 hover:text-zinc-900 dark:hover:text-white transition-colors p-1" title="Settings">
+                <span className="material-symbols-outlined text-[20px]">settings</span>
+              </button>
+            </div>
+          ) : !user || user.isAnonymous ? (
+            <div className="flex items-center gap-2 w-full">
+              <button onClick={handleSignIn} className="flex-1 flex items-center justify-center gap-2 py-2.5 rounded-lg bg-zinc-900 hover:bg-zinc-800 text-white transition-colors font-medium">
+                <span>Sign In</span>
+              </button>
+              <button onClick={() => setIsSettingsOpen(true)} className="text-zinc-500 hover:text-zinc-900 dark:hover:text-white transition-colors p-1" title="Settings">
+                <span className="material-symbols-outlined text-[20px]">settings</span>
+              </button>
+            </div>
           ) : (
             <div className="flex items-center gap-3 w-full px-2 py-2 rounded-lg hover:bg-zinc-200 dark:hover:bg-zinc-800 transition-colors text-left group relative cursor-pointer" onClick={() => setIsSettingsOpen(true)}>
               <div className="size-8 rounded-full bg-zinc-800 flex items-center justify-center text-white font-bold text-xs border border-zinc-600 overflow-hidden">
@@ -330,6 +797,14 @@ function App() {
           </button>
         </header>
 
+        {/* Chat Header */}
+        <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-zinc-200 dark:border-zinc-800 shrink-0">
+          <h2 className="text-sm font-semibold text-zinc-700 dark:text-zinc-200 truncate">
+            {activeSession?.title || `New ${currentSubject.name} chat`}
+          </h2>
+          <ModeSelector mode={pedagogyMode} onSelect={handleSelectMode} />
+        </div>
+
         {/* Chat List - Takes available space */}
         <div className="flex-1 overflow-y-auto scroll-smooth w-full p-4">
           <div className="max-w-3xl mx-auto flex flex-col gap-6">
@@ -343,22 +818,46 @@ function App() {
               <div className="flex justify-center items-center h-40">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-zinc-900 dark:border-white"></div>
               </div>
-            ) : messages.length === 0 ? (
+            ) : visibleMessages.length === 0 && !streamingMessage ? (
               <div className="flex flex-col items-center justify-center text-center opacity-60 mt-10 p-6">
                 <span className="material-symbols-outlined text-6xl text-zinc-300 dark:text-zinc-700 mb-4">school</span>
                 <h3 className="text-lg font-semibold text-zinc-800 dark:text-zinc-200 mb-2">Hello, {user?.displayName?.split(' ')[0] || 'Guest'}!</h3>
                 <p className="text-zinc-500 text-sm max-w-sm">
-                  I'm your {activeSubject} tutor. Ask me a question below to get started!
+                  I'm your {currentSubject.name} tutor. Ask me a question below to get started!
                 </p>
               </div>
             ) : (
-              messages.map((msg) => (
-                <ChatBubble key={msg.id} message={msg} />
+              visibleMessages.map((msg) => (
+                <div
+                  key={msg.id}
+                  id={`message-${msg.id}`}
+                  className={msg.id === highlightedMessageId ? 'rounded-lg ring-2 ring-yellow-300 dark:ring-yellow-700 ring-offset-4 ring-offset-white dark:ring-offset-black transition-shadow' : undefined}
+                >
+                  <ChatBubble
+                    message={msg}
+                    onStudyDeck={handleOpenStudy}
+                    branch={thread.branches.get(msg.id)}
+                    onSwitchBranch={(direction) => handleSwitchBranch(msg.id, direction)}
+                    onEdit={msg.role === Role.USER ? (text) => handleEditMessage(msg, text) : undefined}
+                    onRegenerate={msg.role === Role.MODEL && !msg.quiz && !msg.practice && !msg.deckId ? () => handleRegenerate(msg) : undefined}
+                    onContinue={msg.id === lastMessageId ? () => handleContinue(msg) : undefined}
+                    onAttachRun={handleAttachRun}
+                    onPracticeAnswer={msg.practice ? (response, check) => handlePracticeAnswer(msg, response, check) : undefined}
+                    onNextPractice={msg.id === latestPracticeId ? handleGeneratePractice : undefined}
+                    onRate={msg.role === Role.MODEL && msg.id !== 'streaming' ? (rating) => handleRate(msg, rating) : undefined}
+                    disabled={isThinking}
+                  />
+                </div>
               ))
             )}
 
+            {/* Live Streaming Response */}
+            {streamingMessage && (
+              <ChatBubble message={streamingMessage} />
+            )}
+
             {/* Thinking Indicator */}
-            {(isThinking || statusMessage) && (
+            {((isThinking && !streamingMessage) || statusMessage) && (
               <div className="flex justify-start gap-4 animate-pulse">
                 <div className="shrink-0 mt-1">
                   <img alt="MentisAI Avatar" className="size-8 object-contain" src="/logo.png" />
@@ -405,7 +904,7 @@ function App() {
               )}
 
               {/* Custom Subject Selector (Pill Style) */}
-              <SubjectSelector activeSubject={activeSubject} onSelect={setActiveSubject} />
+              <SubjectSelector subjects={subjects} activeSubject={currentSubject} onSelect={handleSelectSubject} onManage={() => setIsSubjectManagerOpen(true)} />
 
               {/* Text Input */}
               <div className="flex-1 relative flex items-center">
@@ -419,16 +918,29 @@ function App() {
                   rows={1}
                 ></textarea>
 
-                {/* Attachment Indicator */}
-                {attachment && (
-                  <div className="absolute top-[-40px] left-0 bg-white dark:bg-zinc-800 p-2 rounded shadow flex items-center gap-2 text-xs border border-zinc-200 dark:border-zinc-700">
-                    <span className="material-symbols-outlined text-[16px] text-zinc-900 dark:text-zinc-100">
-                      {attachment.type === 'image' ? 'image' : 'description'}
-                    </span>
-                    <span className="truncate max-w-[150px]">{attachment.fileName}</span>
-                    <button onClick={() => { setAttachment(undefined); if (fileInputRef.current) fileInputRef.current.value = ''; }} className="hover:text-red-500">
-                      <span className="material-symbols-outlined text-[16px]">close</span>
-                    </button>
+                {/* Live dictation preview */}
+                {isListening && (
+                  <div className="px-4 pb-2 text-sm italic text-zinc-400 dark:text-zinc-500 truncate">
+                    {interimTranscript || 'Listening...'}
+                  </div>
+                )}
+
+                {/* Attachment Chips */}
+                {attachments.length > 0 && (
+                  <div className="absolute bottom-full left-0 right-0 mb-2 flex flex-wrap gap-2">
+                    {attachments.map((attached, index) => (
+                      <div key={index} className="bg-white dark:bg-zinc-800 p-1.5 pr-2 rounded shadow flex items-center gap-2 text-xs border border-zinc-200 dark:border-zinc-700">
+                        {attached.type === 'image' ? (
+                          <img src={attached.content} alt={attached.fileName || 'Attached image'} className="size-8 rounded object-cover" />
+                        ) : (
+                          <span className="material-symbols-outlined text-[16px] text-zinc-900 dark:text-zinc-100">description</span>
+                        )}
+                        <span className="truncate max-w-[150px]">{attached.fileName}</span>
+                        <button onClick={() => removeAttachment(index)} className="hover:text-red-500" title="Remove">
+                          <span className="material-symbols-outlined text-[16px]">close</span>
+                        </button>
+                      </div>
+                    ))}
                   </div>
                 )}
               </div>
@@ -444,33 +956,42 @@ function App() {
                   {/* Hover Dropdown */}
                   <div className="absolute bottom-full left-0 mb-2 w-48 bg-white dark:bg-zinc-800 rounded-lg shadow-xl border border-zinc-200 dark:border-zinc-700 invisible group-hover:visible opacity-0 group-hover:opacity-100 transition-all transform origin-bottom-left z-50 overflow-hidden flex flex-col">
                     <button
-                      onClick={() => {
-                        if (messages.length === 0) {
-                          alert("Start a conversation first before generating a quiz.");
-                          return;
-                        }
-                        setInput("Create a 5-question multiple choice quiz based on our conversation so far.");
-                        if (textareaRef.current) textareaRef.current.focus();
-                      }}
+                      onClick={handleGenerateQuiz}
                       className="px-4 py-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-700/50 text-zinc-700 dark:text-zinc-200 text-sm font-medium flex items-center gap-2"
                     >
                       <span className="material-symbols-outlined text-[18px] text-zinc-500">quiz</span>
                       Generate Quiz
                     </button>
                     <button
-                      onClick={() => {
-                        if (messages.length === 0) {
-                          alert("Start a conversation first before creating flashcards.");
-                          return;
-                        }
-                        setInput("Summarize the key concepts of this chat into a Markdown table with 'Front' and 'Back' columns for flashcards.");
-                        if (textareaRef.current) textareaRef.current.focus();
-                      }}
+                      onClick={handleGeneratePractice}
+                      className="px-4 py-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-700/50 text-zinc-700 dark:text-zinc-200 text-sm font-medium flex items-center gap-2 border-t border-zinc-100 dark:border-zinc-700"
+                    >
+                      <span className="material-symbols-outlined text-[18px] text-zinc-500">edit_note</span>
+                      Practice Problem
+                    </button>
+                    <button
+                      onClick={handleMakeFlashcards}
                       className="px-4 py-3 text-left hover:bg-zinc-50 dark:hover:bg-zinc-700/50 text-zinc-700 dark:text-zinc-200 text-sm font-medium flex items-center gap-2 border-t border-zinc-100 dark:border-zinc-700"
                     >
                       <span className="material-symbols-outlined text-[18px] text-zinc-500">style</span>
                       Make Flashcards
                     </button>
+                    <div className="px-4 pt-3 pb-1 text-xs font-semibold text-zinc-500 uppercase tracking-wider border-t border-zinc-100 dark:border-zinc-700">Export chat</div>
+                    {([
+                      ['markdown', 'description', 'Markdown'],
+                      ['html', 'code', 'HTML page'],
+                      ['pdf', 'picture_as_pdf', 'Print / PDF'],
+                      ['anki', 'style', 'Anki deck'],
+                    ] as const).map(([format, icon, label]) => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        className="px-4 py-2 text-left hover:bg-zinc-50 dark:hover:bg-zinc-700/50 text-zinc-700 dark:text-zinc-200 text-sm font-medium flex items-center gap-2"
+                      >
+                        <span className="material-symbols-outlined text-[18px] text-zinc-500">{icon}</span>
+                        {label}
+                      </button>
+                    ))}
                   </div>
                 </div>
 
@@ -483,11 +1004,25 @@ function App() {
                 </button>
                 <button
                   onClick={handleVoice}
+                  onPointerDown={pushToTalk ? startListening : undefined}
+                  onPointerUp={pushToTalk ? stopListening : undefined}
+                  onPointerLeave={pushToTalk && isListening ? stopListening : undefined}
                   className={`p-2 rounded-full transition-colors hidden sm:block ${isListening ? 'text-red-500 bg-red-100 animate-pulse' : 'text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-700/50'}`}
-                  title={isListening ? "Stop Listening" : "Voice Input"}
+                  title={pushToTalk ? "Hold to talk (or hold Alt+M)" : isListening ? "Stop Listening" : "Voice Input"}
                 >
                   <span className="material-symbols-outlined text-[20px]">{isListening ? 'mic_off' : 'mic'}</span>
                 </button>
+                {canAskForHint && (
+                  <button
+                    onClick={handleNextHint}
+                    disabled={isThinking}
+                    className="flex items-center gap-1 px-2.5 py-1.5 rounded-full text-xs font-medium border border-amber-300 dark:border-amber-700 text-amber-800 dark:text-amber-300 hover:bg-amber-50 dark:hover:bg-amber-900/20 transition-colors disabled:opacity-50"
+                    title={nextHintLevel === MAX_HINT_LEVEL ? "Show the full solution" : "Unlock a more detailed hint"}
+                  >
+                    <span className="material-symbols-outlined text-[16px]">lightbulb</span>
+                    {nextHintLevel === MAX_HINT_LEVEL ? 'Solution' : `Hint ${nextHintLevel}/${MAX_HINT_LEVEL}`}
+                  </button>
+                )}
                 <button
                   onClick={() => handleSubmit()}
                   disabled={!input.trim() || isThinking}
@@ -497,11 +1032,29 @@ function App() {
                 </button>
               </div>
             </div>
-            <input type="file" ref={fileInputRef} className="hidden" onChange={handleFileSelect} />
+            <input type="file" ref={fileInputRef} className="hidden" multiple onChange={handleFileSelect} />
           </div>
-          <p className="text-center text-xs text-zinc-400 dark:text-zinc-500 mt-2">
-            MentisAI can make mistakes. Consider checking important information.
-          </p>
+          {voiceError ? (
+            <div className="flex items-center justify-center gap-2 text-xs text-red-500 mt-2">
+              <span className="material-symbols-outlined text-[16px]">mic_off</span>
+              {voiceError}
+              <button onClick={clearVoiceError} className="hover:text-red-700" title="Dismiss">
+                <span className="material-symbols-outlined text-[16px]">close</span>
+              </button>
+            </div>
+          ) : usageWarningText ? (
+            <div className="flex items-center justify-center gap-2 text-xs text-amber-600 dark:text-amber-400 mt-2">
+              <span className="material-symbols-outlined text-[16px]">data_usage</span>
+              {usageWarningText}
+              <button onClick={() => setDismissedUsageWarning(usageWarningKey)} className="hover:text-amber-800" title="Dismiss">
+                <span className="material-symbols-outlined text-[16px]">close</span>
+              </button>
+            </div>
+          ) : (
+            <p className="text-center text-xs text-zinc-400 dark:text-zinc-500 mt-2">
+              MentisAI can make mistakes. Consider checking important information.
+            </p>
+          )}
         </div>
 
       </main >
@@ -1,16 +1,68 @@
-import React, { useState } from 'react';
-import { Message, Role } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { Attachment, FeedbackReason, Message, MessageRating, Role } from '../types';
 import MarkdownRenderer from './MarkdownRenderer';
-import { db, collection, addDoc, serverTimestamp } from '../firebase';
+import { QuizView } from './QuizView';
+import { PracticeView } from './PracticeView';
+import { PracticeCheck } from '../services/practiceService';
+import { FEEDBACK_REASONS, buildRating, reasonLabel } from '../services/feedbackService';
+import { useAttachmentUrl } from '../hooks/useAttachmentUrl';
+import { useReadAloud } from '../hooks/useReadAloud';
+
+const ImageThumbnail: React.FC<{ attachment: Attachment }> = ({ attachment }) => {
+  const imageUrl = useAttachmentUrl(attachment);
+  if (!imageUrl) return null;
+  return (
+    <a href={imageUrl} target="_blank" rel="noreferrer">
+      <img src={imageUrl} alt={attachment.fileName || 'Attached image'} className="max-h-48 rounded-lg border border-zinc-200 dark:border-zinc-800 object-contain" />
+    </a>
+  );
+};
+
+const actionButtonClass = "p-1 rounded transition-colors text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-40 disabled:pointer-events-none";
+
+// "< 2/3 >" between the versions of an edited or regenerated message
+const BranchSwitcher: React.FC<{ index: number; count: number; disabled?: boolean; onSwitch: (direction: -1 | 1) => void }> = ({ index, count, disabled, onSwitch }) => (
+  <div className="flex items-center text-xs text-zinc-500 tabular-nums">
+    <button onClick={() => onSwitch(-1)} disabled={disabled || index === 0} className={actionButtonClass} title="Previous version">
+      <span className="material-symbols-outlined text-[18px]">chevron_left</span>
+    </button>
+    <span>{index + 1}/{count}</span>
+    <button onClick={() => onSwitch(1)} disabled={disabled || index === count - 1} className={actionButtonClass} title="Next version">
+      <span className="material-symbols-outlined text-[18px]">chevron_right</span>
+    </button>
+  </div>
+);
 
 interface ChatBubbleProps {
   message: Message;
+  onStudyDeck?: (deckId: string) => void;
+  // Present when this message has alternative versions
+  branch?: { index: number; siblingIds: string[] };
+  onSwitchBranch?: (direction: -1 | 1) => void;
+  onEdit?: (text: string) => void;
+  onRegenerate?: () => void;
+  onContinue?: () => void; // For answers cut off at the output limit
+  onAttachRun?: (attachment: Attachment) => void; // Adds a code run's output to the next message
+  onPracticeAnswer?: (response: string, check: PracticeCheck) => void;
+  onNextPractice?: () => void;
+  onRate?: (rating: MessageRating) => void;
+  disabled?: boolean; // While the tutor is answering
 }
 
-export const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
+export const ChatBubble: React.FC<ChatBubbleProps> = ({ message, onStudyDeck, branch, onSwitchBranch, onEdit, onRegenerate, onContinue, onAttachRun, onPracticeAnswer, onNextPractice, onRate, disabled }) => {
   const isUser = message.role === Role.USER;
-  const [feedback, setFeedback] = useState<'up' | 'down' | null>(null);
+  const [isPickingReason, setIsPickingReason] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [draft, setDraft] = useState<string | null>(null); // Text being edited, null when not editing
+  const attachments = message.attachments || [];
+  const images = attachments.filter(attachment => attachment.type === 'image');
+  const readAloud = useReadAloud(message.id, message.content);
+  const spokenRef = useRef<HTMLSpanElement>(null);
+
+  // Keep the sentence being read in view
+  useEffect(() => {
+    spokenRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [readAloud.currentIndex]);
 
   const handleCopy = async () => {
     try {
@@ -22,36 +74,100 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
     }
   };
 
-  const handleFeedback = async (rating: 'up' | 'down') => {
-    if (feedback === rating) return; // Prevent duplicate
-    setFeedback(rating);
+  // The rating is stored on the message; a thumbs down also asks what was wrong
+  const rating = message.rating?.value;
+  const handleFeedback = (value: 'up' | 'down') => {
+    if (!onRate) return;
+    setIsPickingReason(value === 'down');
+    if (rating !== value) onRate(buildRating(value));
+  };
 
-    try {
-      // Write to 'feedback' collection
-      await addDoc(collection(db, 'feedback'), {
-        messageId: message.id || 'unknown',
-        content: message.content,
-        rating: rating,
-        timestamp: serverTimestamp()
-      });
-    } catch (e) {
-      console.error("Error sending feedback", e);
-    }
+  const handleReason = (reason: FeedbackReason) => {
+    onRate?.(buildRating('down', reason));
+    setIsPickingReason(false);
+  };
+
+  const switcher = branch && onSwitchBranch && (
+    <BranchSwitcher index={branch.index} count={branch.siblingIds.length} disabled={disabled} onSwitch={onSwitchBranch} />
+  );
+
+  const submitEdit = () => {
+    if (!draft?.trim() || !onEdit) return;
+    if (draft.trim() !== message.content) onEdit(draft.trim());
+    setDraft(null);
   };
 
   if (isUser) {
     return (
-      <div className="flex justify-end gap-3 animate-fade-in-up">
+      <div className="group flex justify-end gap-3 animate-fade-in-up">
         {/* User Bubble */}
-        <div className="flex flex-col items-end max-w-[85%] sm:max-w-[75%]">
-          <div className="bg-zinc-100 dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 px-5 py-3.5 rounded-lg rounded-tr-sm shadow-sm">
-            <p className="text-[15px] sm:text-base leading-relaxed whitespace-pre-wrap">{message.content}</p>
-          </div>
-          {/* Attachment Rendering Stub if needed */}
-          {message.attachment && (
-            <div className="mt-1 text-xs text-zinc-400 flex items-center gap-1">
-              <span className="material-symbols-outlined text-[14px]">attachment</span>
-              {message.attachment.fileName || 'Attachment'}
+        <div className={`flex flex-col items-end ${draft !== null ? 'w-full max-w-[85%] sm:max-w-[75%]' : 'max-w-[85%] sm:max-w-[75%]'}`}>
+          {draft !== null ? (
+            <div className="w-full bg-zinc-100 dark:bg-zinc-900 rounded-lg px-4 py-3 shadow-sm">
+              <textarea
+                autoFocus
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    submitEdit();
+                  } else if (e.key === 'Escape') {
+                    setDraft(null);
+                  }
+                }}
+                rows={Math.min(8, draft.split('\n').length + 1)}
+                className="w-full bg-transparent text-[15px] sm:text-base text-zinc-900 dark:text-zinc-100 leading-relaxed resize-none outline-none"
+              />
+              <div className="flex justify-end gap-2 mt-2">
+                <button
+                  onClick={() => setDraft(null)}
+                  className="px-3 py-1.5 text-sm font-medium rounded-lg text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-800 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={submitEdit}
+                  disabled={disabled || !draft.trim()}
+                  className="px-3 py-1.5 text-sm font-medium rounded-lg bg-zinc-900 dark:bg-white text-white dark:text-zinc-900 hover:opacity-90 disabled:opacity-40 transition-opacity"
+                >
+                  Send
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="bg-zinc-100 dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100 px-5 py-3.5 rounded-lg rounded-tr-sm shadow-sm">
+              <p className="text-[15px] sm:text-base leading-relaxed whitespace-pre-wrap">{message.content}</p>
+            </div>
+          )}
+          {images.length > 0 && (
+            <div className="mt-2 flex flex-wrap justify-end gap-2">
+              {images.map((image, index) => <ImageThumbnail key={image.storagePath || index} attachment={image} />)}
+            </div>
+          )}
+          {attachments.length > 0 && (
+            <div className="mt-1 flex flex-wrap justify-end gap-x-3 gap-y-1">
+              {attachments.map((attachment, index) => (
+                <div key={index} className="text-xs text-zinc-400 flex items-center gap-1">
+                  <span className="material-symbols-outlined text-[14px]">{attachment.type === 'image' ? 'image' : 'attachment'}</span>
+                  {attachment.fileName || 'Attachment'}
+                </div>
+              ))}
+            </div>
+          )}
+          {draft === null && (switcher || onEdit) && (
+            <div className="flex items-center gap-1 mt-1">
+              {switcher}
+              {onEdit && (
+                <button
+                  onClick={() => setDraft(message.content)}
+                  disabled={disabled}
+                  className={`${actionButtonClass} sm:opacity-0 sm:group-hover:opacity-100 focus:opacity-100`}
+                  title="Edit and resend"
+                >
+                  <span className="material-symbols-outlined text-[18px]">edit</span>
+                </button>
+              )}
             </div>
           )}
         </div>
@@ -70,33 +186,126 @@ export const ChatBubble: React.FC<ChatBubbleProps> = ({ message }) => {
       <div className="flex flex-col max-w-[90%] sm:max-w-[85%]">
         <div className="bg-white dark:bg-black px-0 py-2 space-y-4">
           <div className="text-zinc-800 dark:text-zinc-200 text-[15px] sm:text-base leading-7">
-            <MarkdownRenderer content={message.content || ''} />
-          </div>
-          <div className="flex items-center gap-2 mt-2 ml-0 pt-0">
-            <button
-              onClick={() => handleFeedback('up')}
-              className={`p-1 rounded transition-colors ${feedback === 'up' ? 'text-green-500 bg-green-50 dark:bg-green-900/20' : 'text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
-              title="Helpful"
-            >
-              <span className={`material-symbols-outlined text-[18px] ${feedback === 'up' ? 'fill-current' : ''}`}>thumb_up</span>
-            </button>
-            <button
-              onClick={() => handleFeedback('down')}
-              className={`p-1 rounded transition-colors ${feedback === 'down' ? 'text-red-500 bg-red-50 dark:bg-red-900/20' : 'text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
-              title="Not Helpful"
-            >
-              <span className={`material-symbols-outlined text-[18px] ${feedback === 'down' ? 'fill-current' : ''}`}>thumb_down</span>
-            </button>
-            <div className="h-4 w-px bg-zinc-200 dark:bg-zinc-800 mx-1"></div>
-            <button
-              onClick={handleCopy}
-              className={`p-1 rounded transition-colors flex items-center gap-1 ${copied ? 'text-green-600 dark:text-green-400' : 'text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
-              title="Copy"
-            >
-              <span className="material-symbols-outlined text-[18px]">{copied ? 'check' : 'content_copy'}</span>
-              {copied && <span className="text-xs font-medium">Copied</span>}
-            </button>
+            {message.quiz ? (
+              <QuizView quiz={message.quiz} />
+            ) : message.practice ? (
+              <PracticeView problem={message.practice} onAnswer={onPracticeAnswer} onNext={onNextPractice} disabled={disabled} />
+            ) : (
+              <MarkdownRenderer content={message.content || ''} runnable={!message.isStreaming} onAttachRun={onAttachRun} />
+            )}
+            {message.deckId && onStudyDeck && (
+              <button
+                onClick={() => onStudyDeck(message.deckId!)}
+                className="mt-3 flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-lg border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-200 transition-colors"
+              >
+                <span className="material-symbols-outlined text-[18px]">style</span>
+                Study this deck
+              </button>
+            )}
+            {message.isStreaming && (
+              <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-zinc-400 dark:bg-zinc-500 animate-pulse" />
+            )}
           </div>
+          {message.truncated && !message.isStreaming && (
+            <div className="flex items-center gap-3 px-4 py-2.5 rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 text-sm text-amber-800 dark:text-amber-300">
+              <span className="material-symbols-outlined text-[18px]">content_cut</span>
+              <span className="flex-1">Max tokens reached. This answer was cut off.</span>
+              {onContinue && (
+                <button
+                  onClick={onContinue}
+                  disabled={disabled}
+                  className="px-3 py-1 rounded-md font-medium border border-amber-300 dark:border-amber-700 hover:bg-amber-100 dark:hover:bg-amber-900/40 transition-colors disabled:opacity-50"
+                >
+                  Continue
+                </button>
+              )}
+            </div>
+          )}
+          {readAloud.isActive && (
+            <div className="max-h-40 overflow-y-auto px-4 py-3 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-900 text-sm leading-6 text-zinc-600 dark:text-zinc-300" aria-live="polite">
+              {readAloud.sentences.map((sentence, index) => (
+                <span
+                  key={index}
+                  ref={index === readAloud.currentIndex ? spokenRef : undefined}
+                  className={index === readAloud.currentIndex ? 'bg-yellow-200 dark:bg-yellow-700/50 text-zinc-900 dark:text-white rounded px-0.5' : ''}
+                >
+                  {sentence}{' '}
+                </span>
+              ))}
+            </div>
+          )}
+          {!message.isStreaming && (
+            <div className="flex items-center gap-2 mt-2 ml-0 pt-0">
+              {switcher}
+              <button
+                onClick={() => handleFeedback('up')}
+                disabled={!onRate}
+                className={`p-1 rounded transition-colors ${rating === 'up' ? 'text-green-500 bg-green-50 dark:bg-green-900/20' : 'text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+                title="Helpful"
+              >
+                <span className={`material-symbols-outlined text-[18px] ${rating === 'up' ? 'fill-current' : ''}`}>thumb_up</span>
+              </button>
+              <button
+                onClick={() => handleFeedback('down')}
+                disabled={!onRate}
+                className={`p-1 rounded transition-colors ${rating === 'down' ? 'text-red-500 bg-red-50 dark:bg-red-900/20' : 'text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+                title={message.rating?.reason ? `Not helpful: ${reasonLabel(message.rating.reason)}` : 'Not Helpful'}
+              >
+                <span className={`material-symbols-outlined text-[18px] ${rating === 'down' ? 'fill-current' : ''}`}>thumb_down</span>
+              </button>
+              <div className="h-4 w-px bg-zinc-200 dark:bg-zinc-800 mx-1"></div>
+              <button
+                onClick={handleCopy}
+                className={`p-1 rounded transition-colors flex items-center gap-1 ${copied ? 'text-green-600 dark:text-green-400' : 'text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+                title="Copy"
+              >
+                <span className="material-symbols-outlined text-[18px]">{copied ? 'check' : 'content_copy'}</span>
+                {copied && <span className="text-xs font-medium">Copied</span>}
+              </button>
+              {onRegenerate && (
+                <button onClick={onRegenerate} disabled={disabled} className={actionButtonClass} title="Regenerate">
+                  <span className="material-symbols-outlined text-[18px]">refresh</span>
+                </button>
+              )}
+              {readAloud.isSupported && !message.quiz && (
+                <>
+                  <button
+                    onClick={readAloud.toggle}
+                    className={`p-1 rounded transition-colors ${readAloud.isActive ? 'text-zinc-900 dark:text-white bg-zinc-100 dark:bg-zinc-800' : 'text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+                    title={!readAloud.isActive ? 'Read aloud' : readAloud.isPaused ? 'Resume' : 'Pause'}
+                  >
+                    <span className="material-symbols-outlined text-[18px]">{!readAloud.isActive ? 'volume_up' : readAloud.isPaused ? 'play_arrow' : 'pause'}</span>
+                  </button>
+                  {readAloud.isActive && (
+                    <button
+                      onClick={readAloud.stop}
+                      className="p-1 rounded transition-colors text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800"
+                      title="Stop reading"
+                    >
+                      <span className="material-symbols-outlined text-[18px]">stop</span>
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+          {isPickingReason && !message.isStreaming && (
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-zinc-500">What was wrong?</span>
+              {FEEDBACK_REASONS.map(reason => (
+                <button
+                  key={reason.id}
+                  onClick={() => handleReason(reason.id)}
+                  className={`px-2.5 py-1 rounded-full border text-xs font-medium transition-colors ${message.rating?.reason === reason.id ? 'border-red-400 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300' : 'border-zinc-300 dark:border-zinc-700 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+                >
+                  {reason.label}
+                </button>
+              ))}
+              <button onClick={() => setIsPickingReason(false)} className={actionButtonClass} title="Skip">
+                <span className="material-symbols-outlined text-[18px]">close</span>
+              </button>
+            </div>
+          )}
         </div>
       </div>
     </div>
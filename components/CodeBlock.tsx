@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Attachment } from '../types';
+import { CodeRunResult, LANGUAGE_LABELS, RunnableLanguage, formatRunForChat, runCode } from '../services/codeRunner';
+
+interface CodeBlockProps {
+  language: RunnableLanguage;
+  code: string;
+  children: React.ReactNode; // The rendered <pre> contents
+  onAttachRun?: (attachment: Attachment) => void;
+}
+
+// A fenced code block with a Run button and its output underneath
+export const CodeBlock: React.FC<CodeBlockProps> = ({ language, code, children, onAttachRun }) => {
+  const [isRunning, setIsRunning] = useState(false);
+  const [result, setResult] = useState<CodeRunResult | null>(null);
+
+  const handleRun = async () => {
+    setIsRunning(true);
+    try {
+      setResult(await runCode(language, code));
+    } catch (err) {
+      console.error("Code run failed", err);
+      setResult({ stdout: '', stderr: '', error: 'The code could not be run.', durationMs: 0 });
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleAttach = () => {
+    if (!result || !onAttachRun) return;
+    onAttachRun({
+      content: formatRunForChat(language, code, result),
+      type: 'text',
+      fileName: `${LANGUAGE_LABELS[language]} run.txt`,
+      mimeType: 'text/plain'
+    });
+  };
+
+  const isEmpty = result && !result.stdout && !result.stderr && result.result === undefined && !result.error;
+
+  return (
+    <div className="not-prose my-4">
+      <div className="relative group/code">
+        <pre className="bg-zinc-800 text-zinc-100 rounded-lg p-4 overflow-x-auto text-sm leading-6">{children}</pre>
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className="absolute top-2 right-2 flex items-center gap-1 px-2 py-1 rounded-md text-xs font-medium bg-zinc-700 hover:bg-zinc-600 text-zinc-100 transition-colors disabled:opacity-60"
+          title={language === 'python' ? 'Run (the first Python run loads the runtime)' : 'Run'}
+        >
+          <span className={`material-symbols-outlined text-[16px] ${isRunning ? 'animate-spin' : ''}`}>{isRunning ? 'progress_activity' : 'play_arrow'}</span>
+          {isRunning ? 'Running...' : 'Run'}
+        </button>
+      </div>
+
+      {result && (
+        <div className="mt-1 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-900 text-sm">
+          <div className="flex items-center justify-between gap-2 px-3 py-1.5 border-b border-zinc-200 dark:border-zinc-800 text-xs text-zinc-500">
+            <span>{LANGUAGE_LABELS[language]} · {result.timedOut ? 'timed out' : `${result.durationMs} ms`}</span>
+            <div className="flex items-center gap-1">
+              {onAttachRun && (
+                <button onClick={handleAttach} className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-zinc-200 dark:hover:bg-zinc-800 text-zinc-600 dark:text-zinc-300 transition-colors" title="Attach code and output to your next message">
+                  <span className="material-symbols-outlined text-[16px]">attach_file</span>
+                  Ask about this
+                </button>
+              )}
+              <button onClick={() => setResult(null)} className="p-0.5 rounded hover:bg-zinc-200 dark:hover:bg-zinc-800 transition-colors" title="Clear output">
+                <span className="material-symbols-outlined text-[16px]">close</span>
+              </button>
+            </div>
+          </div>
+          <div className="px-3 py-2 font-mono text-[13px] whitespace-pre-wrap break-words max-h-80 overflow-y-auto">
+            {result.stdout && <div className="text-zinc-800 dark:text-zinc-200">{result.stdout}</div>}
+            {result.stderr && <div className="text-amber-700 dark:text-amber-400">{result.stderr}</div>}
+            {result.result !== undefined && <div className="text-zinc-500">{'←'} {result.result}</div>}
+            {result.error && <div className="text-red-600 dark:text-red-400">{result.error}</div>}
+            {isEmpty && <div className="text-zinc-400 italic">No output</div>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useState, useEffect } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { Attachment } from '../types';
+import { openPdf, extractPdf, parsePageRange } from '../services/documentService';
+
+interface DocumentImportModalProps {
+  file: File | null;
+  onClose: () => void;
+  onImport: (attachments: Attachment[]) => void;
+}
+
+export const DocumentImportModal: React.FC<DocumentImportModalProps> = ({ file, onClose, onImport }) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [pageInput, setPageInput] = useState('');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    let cancelled = false;
+    let opened: PDFDocumentProxy | null = null;
+    setPdf(null);
+    setError(null);
+    setProgress(null);
+
+    openPdf(file)
+      .then(doc => {
+        opened = doc;
+        if (cancelled) return;
+        setPdf(doc);
+        setPageInput(`1-${doc.numPages}`);
+      })
+      .catch(err => {
+        console.error("Failed to open PDF", err);
+        if (!cancelled) setError("Could not read this PDF. It may be encrypted or damaged.");
+      });
+
+    return () => {
+      cancelled = true;
+      opened?.destroy();
+    };
+  }, [file]);
+
+  if (!file) return null;
+
+  const selectedPages = pdf ? parsePageRange(pageInput, pdf.numPages) : [];
+
+  const handleImport = async () => {
+    if (!pdf || selectedPages.length === 0) return;
+    setError(null);
+    setProgress({ done: 0, total: selectedPages.length });
+    try {
+      const result = await extractPdf(pdf, file.name, selectedPages, (done, total) => setProgress({ done, total }));
+
+      // Text pages and rendered scans become separate attachments
+      const imported = [result.text, result.scans].filter((attachment): attachment is Attachment => !!attachment);
+      if (imported.length === 0) {
+        setError("No content found on the selected pages.");
+        return;
+      }
+      onImport(imported);
+    } catch (err) {
+      console.error("PDF extraction failed", err);
+      setError("Failed to extract text from this PDF.");
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-zinc-950 rounded-xl shadow-2xl w-full max-w-md overflow-hidden flex flex-col">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-200 dark:border-zinc-800">
+          <h2 className="text-xl font-bold text-zinc-900 dark:text-white">Import PDF</h2>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 rounded-full transition-colors">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex items-center gap-3 px-4 py-3 rounded-lg border border-zinc-200 dark:border-zinc-800">
+            <span className="material-symbols-outlined text-zinc-400">picture_as_pdf</span>
+            <div className="flex-1 min-w-0">
+              <div className="font-medium text-sm text-zinc-900 dark:text-white truncate">{file.name}</div>
+              <div className="text-xs text-zinc-500">{pdf ? `${pdf.numPages} page${pdf.numPages === 1 ? '' : 's'}` : 'Loading...'}</div>
+            </div>
+          </div>
+
+          {pdf && (
+            <div>
+              <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">Pages</label>
+              <input
+                type="text"
+                value={pageInput}
+                onChange={(e) => setPageInput(e.target.value)}
+                placeholder="e.g. 1-3, 5"
+                className="w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-lg bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-zinc-500 outline-none"
+              />
+              <p className="text-xs text-zinc-500 mt-1">
+                {selectedPages.length === 0 ? 'Enter pages to import.' : `${selectedPages.length} page${selectedPages.length === 1 ? '' : 's'} selected. Scanned pages are sent as images.`}
+              </p>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-zinc-200 dark:border-zinc-800">
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium rounded-lg text-zinc-700 dark:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!pdf || selectedPages.length === 0 || progress !== null}
+            className="px-4 py-2 bg-zinc-900 hover:bg-zinc-800 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            {progress ? `Reading page ${progress.done}/${progress.total}...` : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,188 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { FeedbackEntry, FeedbackReason, SubjectDefinition } from '../types';
+import { findSubject } from '../services/subjects';
+import { FEEDBACK_REASONS, FeedbackGroup, UNKNOWN_PROVIDER, entryDate, groupFeedback, providerKey, reasonLabel } from '../services/feedbackService';
+
+interface FeedbackAnalyticsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onLoad: (allUsers: boolean) => Promise<FeedbackEntry[]>;
+  subjects: SubjectDefinition[];
+  canViewAllUsers: boolean; // Only the Firestore backend has other users
+}
+
+const RANGES = [
+  { id: '7', label: 'Last 7 days', days: 7 },
+  { id: '30', label: 'Last 30 days', days: 30 },
+  { id: '90', label: 'Last 90 days', days: 90 },
+  { id: 'all', label: 'All time', days: null },
+];
+
+const formatLatency = (ms: number | null) => (ms === null ? '–' : ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const topReasons = (reasons: Partial<Record<FeedbackReason, number>>) =>
+  (Object.entries(reasons) as [FeedbackReason, number][])
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 2)
+    .map(([reason, count]) => `${reasonLabel(reason)} (${count})`)
+    .join(', ');
+
+const GroupTable: React.FC<{ title: string; groups: FeedbackGroup[]; labelOf?: (key: string) => string }> = ({ title, groups, labelOf = key => key }) => (
+  <div>
+    <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">{title}</h3>
+    <div className="overflow-x-auto rounded-lg border border-zinc-200 dark:border-zinc-800">
+      <table className="w-full text-sm">
+        <thead className="bg-zinc-50 dark:bg-zinc-900 text-zinc-500 text-xs">
+          <tr>
+            <th className="text-left font-medium px-3 py-2"></th>
+            <th className="text-right font-medium px-3 py-2">Ratings</th>
+            <th className="text-right font-medium px-3 py-2">Negative</th>
+            <th className="text-right font-medium px-3 py-2">Avg. latency</th>
+            <th className="text-left font-medium px-3 py-2">Top reasons</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800 text-zinc-800 dark:text-zinc-200">
+          {groups.map(group => (
+            <tr key={group.key}>
+              <td className="px-3 py-2 font-medium">{labelOf(group.key)}</td>
+              <td className="px-3 py-2 text-right tabular-nums">{group.total}</td>
+              <td className={`px-3 py-2 text-right tabular-nums ${group.negativeRate >= 0.5 ? 'text-red-600 dark:text-red-400 font-semibold' : ''}`}>
+                {Math.round(group.negativeRate * 100)}%
+              </td>
+              <td className="px-3 py-2 text-right tabular-nums">{formatLatency(group.avgLatencyMs)}</td>
+              <td className="px-3 py-2 text-zinc-500">{topReasons(group.reasons) || '–'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  </div>
+);
+
+// Ratings grouped by subject and by provider, worst first, to spot routes that tutor badly
+export const FeedbackAnalytics: React.FC<FeedbackAnalyticsProps> = ({ isOpen, onClose, onLoad, subjects, canViewAllUsers }) => {
+  const [entries, setEntries] = useState<FeedbackEntry[]>([]);
+  const [allUsers, setAllUsers] = useState(false);
+  const [range, setRange] = useState('30');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    onLoad(allUsers)
+      .then(loaded => { if (!cancelled) setEntries(loaded); })
+      .catch(loadError => {
+        console.error("Error loading feedback", loadError);
+        if (!cancelled) {
+          setEntries([]);
+          setError(allUsers ? "Couldn't load everyone's feedback. Reading it requires an admin rule in Firestore." : "Couldn't load feedback.");
+        }
+      })
+      .finally(() => { if (!cancelled) setIsLoading(false); });
+    return () => { cancelled = true; };
+  }, [isOpen, allUsers, onLoad]);
+
+  const filtered = useMemo(() => {
+    const days = RANGES.find(r => r.id === range)?.days;
+    if (!days) return entries;
+    const since = Date.now() - days * 24 * 60 * 60 * 1000;
+    return entries.filter(entry => (entryDate(entry)?.getTime() ?? 0) >= since);
+  }, [entries, range]);
+
+  const bySubject = useMemo(() => groupFeedback(filtered, entry => entry.subject), [filtered]);
+  const byProvider = useMemo(() => groupFeedback(filtered, providerKey), [filtered]);
+  const byRoute = useMemo(() => groupFeedback(filtered, entry => `${entry.subject}\n${providerKey(entry)}`), [filtered]);
+  const reasonCounts = useMemo(() => FEEDBACK_REASONS
+    .map(reason => ({ ...reason, count: filtered.filter(entry => entry.reason === reason.id).length }))
+    .filter(reason => reason.count > 0), [filtered]);
+
+  if (!isOpen) return null;
+
+  const subjectName = (id: string) => findSubject(subjects, id).name;
+  const downCount = filtered.filter(entry => entry.rating === 'down').length;
+  const maxReasonCount = Math.max(1, ...reasonCounts.map(reason => reason.count));
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-zinc-950 rounded-xl shadow-2xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-200 dark:border-zinc-800">
+          <h2 className="text-xl font-bold text-zinc-900 dark:text-white">Feedback</h2>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 rounded-full transition-colors">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-zinc-200 dark:border-zinc-800 text-sm">
+          <select
+            value={range}
+            onChange={(e) => setRange(e.target.value)}
+            className="px-3 py-1.5 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-zinc-900 dark:text-white outline-none"
+          >
+            {RANGES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+          </select>
+          {canViewAllUsers && (
+            <div className="flex rounded-lg border border-zinc-300 dark:border-zinc-700 overflow-hidden">
+              {[false, true].map(value => (
+                <button
+                  key={String(value)}
+                  onClick={() => setAllUsers(value)}
+                  className={`px-3 py-1.5 font-medium transition-colors ${allUsers === value ? 'bg-zinc-900 dark:bg-white text-white dark:text-black' : 'text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+                >
+                  {value ? 'All users' : 'Mine'}
+                </button>
+              ))}
+            </div>
+          )}
+          <span className="ml-auto text-zinc-500">
+            {filtered.length} rating{filtered.length === 1 ? '' : 's'} · {downCount} negative
+          </span>
+        </div>
+
+        <div className="flex-1 p-6 overflow-y-auto space-y-6">
+          {error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          ) : isLoading ? (
+            <p className="text-sm text-zinc-500">Loading feedback...</p>
+          ) : filtered.length === 0 ? (
+            <p className="text-sm text-zinc-500">No feedback in this period. Rate answers with the thumbs up and down buttons under them.</p>
+          ) : (
+            <>
+              <GroupTable title="By subject" groups={bySubject} labelOf={subjectName} />
+              <GroupTable title="By provider and model" groups={byProvider} labelOf={key => key === UNKNOWN_PROVIDER ? 'Not recorded' : key} />
+              <GroupTable
+                title="By route (subject and model)"
+                groups={byRoute}
+                labelOf={key => {
+                  const [subject, provider] = key.split('\n');
+                  return `${subjectName(subject)} → ${provider === UNKNOWN_PROVIDER ? 'not recorded' : provider}`;
+                }}
+              />
+              {reasonCounts.length > 0 && (
+                <div>
+                  <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Reasons given</h3>
+                  <div className="space-y-1.5">
+                    {reasonCounts.map(reason => (
+                      <div key={reason.id} className="flex items-center gap-3 text-sm">
+                        <span className="w-36 shrink-0 text-zinc-700 dark:text-zinc-300">{reason.label}</span>
+                        <div className="flex-1 h-2 rounded-full bg-zinc-100 dark:bg-zinc-800 overflow-hidden">
+                          <div className="h-full bg-red-400" style={{ width: `${(reason.count / maxReasonCount) * 100}%` }} />
+                        </div>
+                        <span className="w-8 text-right tabular-nums text-zinc-500">{reason.count}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { Flashcard, FlashcardDeck, SubjectDefinition } from '../types';
+import MarkdownRenderer from './MarkdownRenderer';
+import { isDueToday, scheduleReview, REVIEW_GRADES, ReviewQuality } from '../services/srs';
+import { findSubject } from '../services/subjects';
+
+interface FlashcardStudyProps {
+  isOpen: boolean;
+  onClose: () => void;
+  decks: FlashcardDeck[];
+  onReview: (deckId: string, card: Flashcard, quality: ReviewQuality) => Promise<void>;
+  initialDeckId?: string | null;
+  subjects: SubjectDefinition[];
+}
+
+interface QueueItem {
+  deckId: string;
+  card: Flashcard;
+}
+
+const formatInterval = (days: number) => (days <= 1 ? '1 day' : days < 30 ? `${days} days` : `${Math.round(days / 30)} mo`);
+
+export const FlashcardStudy: React.FC<FlashcardStudyProps> = ({ isOpen, onClose, decks, onReview, initialDeckId, subjects }) => {
+  const [queue, setQueue] = useState<QueueItem[] | null>(null);
+  const [showBack, setShowBack] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const dueItems = (deckFilter?: string): QueueItem[] =>
+    decks
+      .filter(deck => !deckFilter || deck.id === deckFilter)
+      .flatMap(deck => deck.cards.filter(card => isDueToday(card)).map(card => ({ deckId: deck.id, card })));
+
+  const startReview = (deckId?: string) => {
+    setQueue(dueItems(deckId));
+    setShowBack(false);
+    setReviewedCount(0);
+  };
+
+  // Opening from a chat's "Study" button jumps straight into that deck
+  useEffect(() => {
+    if (isOpen && initialDeckId) startReview(initialDeckId);
+    if (!isOpen) setQueue(null);
+  }, [isOpen, initialDeckId]);
+
+  const handleGrade = async (quality: ReviewQuality) => {
+    if (!queue || queue.length === 0) return;
+    const [current, ...rest] = queue;
+
+    // Failed cards come back at the end of this session
+    setQueue(quality < 3 ? [...rest, current] : rest);
+    setShowBack(false);
+    setReviewedCount(count => count + 1);
+    await onReview(current.deckId, current.card, quality);
+  };
+
+  if (!isOpen) return null;
+
+  const totalDue = dueItems().length;
+  const current = queue?.[0];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-zinc-950 rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-200 dark:border-zinc-800">
+          <div className="flex items-center gap-2">
+            {queue && (
+              <button onClick={() => setQueue(null)} className="p-1 text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 rounded-full transition-colors" title="Back to decks">
+                <span className="material-symbols-outlined">arrow_back</span>
+              </button>
+            )}
+            <h2 className="text-xl font-bold text-zinc-900 dark:text-white">{queue ? 'Review' : 'Flashcards'}</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 rounded-full transition-colors">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <div className="flex-1 p-6 overflow-y-auto">
+          {!queue ? (
+            <div className="space-y-6">
+              {/* Due Today */}
+              <div className="flex items-center justify-between p-4 bg-zinc-50 dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800">
+                <div>
+                  <div className="font-medium text-zinc-900 dark:text-white">Due today</div>
+                  <div className="text-sm text-zinc-500">{totalDue === 0 ? 'Nothing to review. Nice work!' : `${totalDue} card${totalDue === 1 ? '' : 's'} across all decks`}</div>
+                </div>
+                <button
+                  onClick={() => startReview()}
+                  disabled={totalDue === 0}
+                  className="px-4 py-2 bg-zinc-900 hover:bg-zinc-800 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+                >
+                  Study now
+                </button>
+              </div>
+
+              {/* Decks */}
+              <div>
+                <h3 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Decks</h3>
+                {decks.length === 0 ? (
+                  <p className="text-sm text-zinc-500">No decks yet. Use "Make Flashcards" in the AI Tools menu to create one from a chat.</p>
+                ) : (
+                  <div className="flex flex-col gap-2">
+                    {decks.map(deck => {
+                      const due = deck.cards.filter(card => isDueToday(card)).length;
+                      return (
+                        <div key={deck.id} className="flex items-center gap-3 px-4 py-3 rounded-lg border border-zinc-200 dark:border-zinc-800">
+                          <span className="material-symbols-outlined text-zinc-400">style</span>
+                          <div className="flex-1 min-w-0">
+                            <div className="font-medium text-sm text-zinc-900 dark:text-white truncate">{deck.title}</div>
+                            <div className="text-xs text-zinc-500">{findSubject(subjects, deck.subject).name} · {deck.cards.length} cards · {due} due</div>
+                          </div>
+                          <button
+                            onClick={() => startReview(deck.id)}
+                            disabled={due === 0}
+                            className="px-3 py-1.5 text-sm font-medium rounded-lg border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-200 transition-colors disabled:opacity-50"
+                          >
+                            Review
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+          ) : !current ? (
+            <div className="flex flex-col items-center justify-center text-center py-10">
+              <span className="material-symbols-outlined text-5xl text-green-500 mb-3">task_alt</span>
+              <h3 className="text-lg font-semibold text-zinc-900 dark:text-white mb-1">Session complete</h3>
+              <p className="text-sm text-zinc-500 mb-6">You reviewed {reviewedCount} card{reviewedCount === 1 ? '' : 's'}.</p>
+              <button onClick={() => setQueue(null)} className="px-4 py-2 bg-zinc-900 hover:bg-zinc-800 text-white rounded-lg font-medium transition-colors">
+                Back to decks
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="text-xs text-zinc-500 text-right">{queue.length} left</div>
+              <div className="min-h-[160px] p-6 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-zinc-50 dark:bg-zinc-900 flex flex-col justify-center text-center text-zinc-900 dark:text-zinc-100">
+                <MarkdownRenderer content={current.card.front} />
+                {showBack && (
+                  <div className="mt-4 pt-4 border-t border-zinc-200 dark:border-zinc-700">
+                    <MarkdownRenderer content={current.card.back} />
+                  </div>
+                )}
+              </div>
+              {!showBack ? (
+                <button onClick={() => setShowBack(true)} className="w-full py-2.5 bg-zinc-900 hover:bg-zinc-800 text-white rounded-lg font-medium transition-colors">
+                  Show answer
+                </button>
+              ) : (
+                <div className="grid grid-cols-4 gap-2">
+                  {REVIEW_GRADES.map(grade => (
+                    <button
+                      key={grade.label}
+                      onClick={() => handleGrade(grade.quality)}
+                      className="flex flex-col items-center py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-200 transition-colors"
+                    >
+                      <span className="text-sm font-medium">{grade.label}</span>
+                      <span className="text-xs text-zinc-500">{formatInterval(scheduleReview(current.card, grade.quality).interval)}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
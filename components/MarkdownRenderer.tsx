@@ -1,23 +1,51 @@
-import React from 'react';
-import ReactMarkdown from 'react-markdown';
+import React, { useMemo } from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
+import 'katex/contrib/mhchem'; // Registers \ce{} and \pu{} with KaTeX, for this renderer and the HTML export
+import { Attachment } from '../types';
+import { getRunnableLanguage } from '../services/codeRunner';
+import { CodeBlock } from './CodeBlock';
+import { MoleculeView } from './MoleculeView';
+import { PlotView } from './PlotView';
 
 interface MarkdownRendererProps {
   content: string;
+  runnable?: boolean; // Adds a Run button to JavaScript, TypeScript and Python blocks
+  onAttachRun?: (attachment: Attachment) => void;
 }
 
-const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content }) => {
+// Plain text of a hast node, i.e. the code inside a fenced block
+const nodeText = (node: any): string =>
+  node.type === 'text' ? node.value : (node.children || []).map(nodeText).join('');
+
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, runnable, onAttachRun }) => {
+  const components = useMemo<Components>(() => ({
+    pre: ({ node, children, ...props }) => {
+      const codeNode: any = node?.children[0];
+      const classNames: string[] = codeNode?.tagName === 'code' ? codeNode.properties?.className || [] : [];
+      const tag = classNames.find(name => name.startsWith('language-'))?.slice('language-'.length);
+      const code = codeNode ? nodeText(codeNode).replace(/\n$/, '') : '';
+
+      if (tag === 'plot') return <PlotView source={code} />;
+      if (tag === 'smiles') return <MoleculeView source={code} />;
+
+      const language = runnable ? getRunnableLanguage(tag) : null;
+      if (!language) return <pre {...props}>{children}</pre>;
+      return (
+        <CodeBlock language={language} code={code} onAttachRun={onAttachRun}>
+          {children}
+        </CodeBlock>
+      );
+    }
+  }), [runnable, onAttachRun]);
+
   return (
     <div className="prose prose-zinc dark:prose-invert max-w-none prose-p:leading-relaxed prose-pre:bg-zinc-800 prose-pre:text-zinc-100 w-full">
       <ReactMarkdown
         remarkPlugins={[remarkMath]}
         rehypePlugins={[rehypeKatex]}
-        components={{
-          // Ensure math is rendered in a span/div appropriately if needed
-          // But usually default is fine. 
-          // We adding a robust error boundary or fallback could be good here.
-        }}
+        components={components}
       >
         {content}
       </ReactMarkdown>
@@ -25,4 +53,4 @@ const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content }) => {
   );
 };
 
-export default React.memo(MarkdownRenderer);
\ No newline at end of file
+export default React.memo(MarkdownRenderer);
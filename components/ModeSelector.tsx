@@ -0,0 +1,76 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { PedagogyMode } from '../types';
+
+const MODES: { mode: PedagogyMode; label: string; icon: string; description: string }[] = [
+  { mode: PedagogyMode.EXPLAIN, label: 'Explain fully', icon: 'menu_book', description: 'Complete step-by-step explanations' },
+  { mode: PedagogyMode.SOCRATIC, label: 'Socratic', icon: 'forum', description: 'Guiding questions instead of answers' },
+  { mode: PedagogyMode.HINTS, label: 'Hints only', icon: 'lightbulb', description: 'Small hints first, more help on request' },
+  { mode: PedagogyMode.CHECK, label: 'Check my work', icon: 'fact_check', description: 'Feedback on your own attempt' },
+];
+
+interface ModeSelectorProps {
+  mode: PedagogyMode;
+  onSelect: (mode: PedagogyMode) => void;
+}
+
+export const ModeSelector: React.FC<ModeSelectorProps> = ({ mode, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const active = MODES.find(option => option.mode === mode) || MODES[0];
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div className="relative shrink-0" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border text-xs font-medium transition-colors
+          ${mode === PedagogyMode.EXPLAIN
+            ? 'border-zinc-200 dark:border-zinc-700 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800'
+            : 'border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300 hover:bg-amber-100 dark:hover:bg-amber-900/40'
+          }`}
+        title="Tutoring mode"
+      >
+        <span className="material-symbols-outlined text-[16px]">{active.icon}</span>
+        {active.label}
+        <span className={`material-symbols-outlined text-[16px] transition-transform ${isOpen ? 'rotate-180' : ''}`}>expand_more</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-64 bg-white dark:bg-zinc-900 rounded-lg shadow-xl border border-zinc-200 dark:border-zinc-700 overflow-hidden z-50">
+          {MODES.map(option => (
+            <button
+              key={option.mode}
+              onClick={() => {
+                onSelect(option.mode);
+                setIsOpen(false);
+              }}
+              className={`w-full flex items-start gap-3 px-4 py-2.5 text-sm transition-colors text-left
+                ${mode === option.mode
+                  ? 'bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-white'
+                  : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-800/50'
+                }`}
+            >
+              <span className="material-symbols-outlined text-[18px] mt-0.5">{option.icon}</span>
+              <span className="flex-1">
+                <span className="block font-medium">{option.label}</span>
+                <span className="block text-xs text-zinc-500">{option.description}</span>
+              </span>
+              {mode === option.mode && (
+                <span className="material-symbols-outlined text-[16px] mt-0.5">check</span>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+import React, { useState, useEffect, useRef } from 'react';
+import SmilesDrawer from 'smiles-drawer';
+
+const SIZE = 260;
+
+// "CC(=O)O | Acetic acid" -> one molecule with an optional name
+const parseLine = (line: string) => {
+  const [smiles, ...label] = line.split('|');
+  return { smiles: smiles.trim(), label: label.join('|').trim() || undefined };
+};
+
+const Molecule: React.FC<{ smiles: string; label?: string }> = ({ smiles, label }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    SmilesDrawer.parse(
+      SmilesDrawer.clean(smiles),
+      (tree) => {
+        if (!svgRef.current) return;
+        svgRef.current.replaceChildren();
+        new SmilesDrawer.SvgDrawer({ width: SIZE, height: SIZE, padding: 16 }).draw(tree, svgRef.current, 'light');
+        setError(null);
+      },
+      (err) => setError(err?.message || 'Invalid SMILES')
+    );
+  }, [smiles]);
+
+  return (
+    <figure className="flex flex-col items-center gap-1 m-0">
+      {/* Kept mounted on errors so a corrected structure can still be drawn into it */}
+      <svg ref={svgRef} width={SIZE} height={SIZE} className={error ? 'hidden' : 'max-w-full h-auto'} role="img" aria-label={label || smiles} />
+      {error && (
+        <div className="flex items-center justify-center p-4 text-xs text-red-600 font-mono break-all" style={{ width: SIZE, minHeight: 80 }}>
+          {smiles}: {error}
+        </div>
+      )}
+      {label && <figcaption className="text-sm text-zinc-600">{label}</figcaption>}
+    </figure>
+  );
+};
+
+// Structural formulas for a ```smiles block, one molecule per line
+export const MoleculeView: React.FC<{ source: string }> = ({ source }) => {
+  const molecules = source.split('\n').map(line => line.trim()).filter(Boolean).map(parseLine);
+
+  return (
+    <div className="not-prose my-4 flex flex-wrap justify-center gap-4 p-3 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white">
+      {molecules.map((molecule, index) => (
+        <Molecule key={`${index}-${molecule.smiles}`} smiles={molecule.smiles} label={molecule.label} />
+      ))}
+    </div>
+  );
+};
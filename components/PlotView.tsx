@@ -0,0 +1,272 @@
+import React, { useState, useEffect, useMemo, useRef, useId } from 'react';
+import { PLOT_COLORS, PlotSpec, formatNumber, niceTicks, parsePlot, sampleFunction } from '../services/plotService';
+import { downloadFile } from '../services/exportService';
+
+const WIDTH = 640;
+const HEIGHT = 400;
+const GRID_COLOR = '#a1a1aa';
+const TEXT_COLOR = '#71717a';
+
+type Range = [number, number];
+
+interface PlotViewProps {
+  source: string; // Contents of the ```plot block
+}
+
+const toFileName = (spec: PlotSpec, extension: string) =>
+  `${(spec.title || 'plot').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'plot'}.${extension}`;
+
+// Standalone copy of the chart without the hover overlay
+const serializeSvg = (svg: SVGSVGElement): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.querySelectorAll('[data-export="skip"]').forEach(element => element.remove());
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(WIDTH));
+  clone.setAttribute('height', String(HEIGHT));
+  return new XMLSerializer().serializeToString(clone);
+};
+
+const svgToPng = (svgText: string): Promise<Blob> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml' }));
+  const image = new Image();
+  image.onload = () => {
+    const scale = 2;
+    const canvas = document.createElement('canvas');
+    canvas.width = WIDTH * scale;
+    canvas.height = HEIGHT * scale;
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not create the PNG.")), 'image/png');
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error("Could not render the plot."));
+  };
+  image.src = url;
+});
+
+// Interactive graph for a ```plot block: drag to pan, scroll to zoom, hover for values
+export const PlotView: React.FC<PlotViewProps> = ({ source }) => {
+  const parsed = useMemo(() => {
+    try {
+      return { spec: parsePlot(source), error: null };
+    } catch (err) {
+      return { spec: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [source]);
+  const spec = parsed.spec;
+
+  const [view, setView] = useState<{ x: Range; y: Range } | null>(null);
+  const [hoverX, setHoverX] = useState<number | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const clipId = `plot-clip-${useId().replace(/:/g, '')}`;
+  const dragRef = useRef<{ clientX: number; clientY: number; x: Range; y: Range } | null>(null);
+
+  useEffect(() => {
+    setView(spec ? { x: spec.x, y: spec.y } : null);
+  }, [spec]);
+
+  const margin = { top: spec?.title ? 32 : 16, right: 16, bottom: spec?.xLabel ? 44 : 28, left: spec?.yLabel ? 60 : 48 };
+  const plotWidth = WIDTH - margin.left - margin.right;
+  const plotHeight = HEIGHT - margin.top - margin.bottom;
+
+  const zoom = (factor: number, center?: [number, number]) => {
+    setView(current => {
+      if (!current) return current;
+      const [cx, cy] = center || [(current.x[0] + current.x[1]) / 2, (current.y[0] + current.y[1]) / 2];
+      return {
+        x: [cx - (cx - current.x[0]) * factor, cx + (current.x[1] - cx) * factor],
+        y: [cy - (cy - current.y[0]) * factor, cy + (current.y[1] - cy) * factor],
+      };
+    });
+  };
+
+  // Data coordinates under a pointer event
+  const toData = (clientX: number, clientY: number, range: { x: Range; y: Range }): [number, number] => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    const px = (clientX - rect.left) * WIDTH / rect.width - margin.left;
+    const py = (clientY - rect.top) * HEIGHT / rect.height - margin.top;
+    return [range.x[0] + px / plotWidth * (range.x[1] - range.x[0]), range.y[1] - py / plotHeight * (range.y[1] - range.y[0])];
+  };
+
+  // React's wheel listener is passive, so scrolling the chat couldn't be stopped while zooming
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || !view) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      zoom(event.deltaY > 0 ? 1.15 : 1 / 1.15, toData(event.clientX, event.clientY, view));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  });
+
+  if (!spec || !view) {
+    return (
+      <div className="not-prose my-4">
+        <pre className="bg-zinc-800 text-zinc-100 rounded-lg p-4 overflow-x-auto text-sm">{source}</pre>
+        {parsed.error && <p className="mt-1 text-xs text-red-600 dark:text-red-400">Could not draw this plot: {parsed.error}</p>}
+      </div>
+    );
+  }
+
+  const sx = (x: number) => margin.left + (x - view.x[0]) / (view.x[1] - view.x[0]) * plotWidth;
+  const sy = (y: number) => margin.top + (view.y[1] - y) / (view.y[1] - view.y[0]) * plotHeight;
+  const xTicks = niceTicks(view.x[0], view.x[1]);
+  const yTicks = niceTicks(view.y[0], view.y[1], 6);
+  const axisX = Math.min(Math.max(sx(0), margin.left), margin.left + plotWidth);
+  const axisY = Math.min(Math.max(sy(0), margin.top), margin.top + plotHeight);
+
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { clientX: event.clientX, clientY: event.clientY, x: view.x, y: view.y };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (drag) {
+      const rect = svgRef.current!.getBoundingClientRect();
+      const dx = (event.clientX - drag.clientX) * WIDTH / rect.width / plotWidth * (drag.x[1] - drag.x[0]);
+      const dy = (event.clientY - drag.clientY) * HEIGHT / rect.height / plotHeight * (drag.y[1] - drag.y[0]);
+      setView({ x: [drag.x[0] - dx, drag.x[1] - dx], y: [drag.y[0] + dy, drag.y[1] + dy] });
+      setHoverX(null);
+      return;
+    }
+    const [x] = toData(event.clientX, event.clientY, view);
+    setHoverX(x >= view.x[0] && x <= view.x[1] ? x : null);
+  };
+
+  const handleExport = async (format: 'svg' | 'png') => {
+    if (!svgRef.current) return;
+    const svgText = serializeSvg(svgRef.current);
+    try {
+      if (format === 'svg') downloadFile(toFileName(spec, 'svg'), svgText, 'image/svg+xml');
+      else downloadFile(toFileName(spec, 'png'), await svgToPng(svgText), 'image/png');
+    } catch (err) {
+      console.error("Plot export failed", err);
+      alert("Failed to export the plot.");
+    }
+  };
+
+  const hoverValues = hoverX === null ? [] : spec.functions
+    .map((fn, index) => ({ fn, index, y: fn.evaluate(hoverX) }))
+    .filter(({ y }) => Number.isFinite(y));
+
+  const toolbarButtonClass = "p-1 rounded text-zinc-500 hover:text-zinc-800 dark:hover:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors";
+
+  return (
+    <div className="not-prose my-4 rounded-lg border border-zinc-200 dark:border-zinc-800 overflow-hidden">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        className="w-full h-auto touch-none select-none cursor-grab active:cursor-grabbing"
+        fontFamily="Inter, sans-serif"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => { dragRef.current = null; }}
+        onPointerLeave={() => { dragRef.current = null; setHoverX(null); }}
+        onDoubleClick={() => setView({ x: spec.x, y: spec.y })}
+      >
+        <defs>
+          <clipPath id={clipId}>
+            <rect x={margin.left} y={margin.top} width={plotWidth} height={plotHeight} />
+          </clipPath>
+        </defs>
+
+        {spec.title && (
+          <text x={WIDTH / 2} y={20} textAnchor="middle" fontSize={14} fontWeight={600} fill={TEXT_COLOR}>{spec.title}</text>
+        )}
+
+        {/* Grid and tick labels */}
+        {xTicks.map(tick => (
+          <g key={`x${tick}`}>
+            <line x1={sx(tick)} x2={sx(tick)} y1={margin.top} y2={margin.top + plotHeight} stroke={GRID_COLOR} strokeOpacity={0.25} />
+            <text x={sx(tick)} y={margin.top + plotHeight + 16} textAnchor="middle" fontSize={11} fill={TEXT_COLOR}>{formatNumber(tick)}</text>
+          </g>
+        ))}
+        {yTicks.map(tick => (
+          <g key={`y${tick}`}>
+            <line x1={margin.left} x2={margin.left + plotWidth} y1={sy(tick)} y2={sy(tick)} stroke={GRID_COLOR} strokeOpacity={0.25} />
+            <text x={margin.left - 6} y={sy(tick) + 4} textAnchor="end" fontSize={11} fill={TEXT_COLOR}>{formatNumber(tick)}</text>
+          </g>
+        ))}
+
+        {/* Axes through the origin, or along the edge when it is out of view */}
+        <line x1={margin.left} x2={margin.left + plotWidth} y1={axisY} y2={axisY} stroke={TEXT_COLOR} />
+        <line x1={axisX} x2={axisX} y1={margin.top} y2={margin.top + plotHeight} stroke={TEXT_COLOR} />
+
+        {spec.xLabel && (
+          <text x={margin.left + plotWidth / 2} y={HEIGHT - 8} textAnchor="middle" fontSize={12} fill={TEXT_COLOR}>{spec.xLabel}</text>
+        )}
+        {spec.yLabel && (
+          <text x={14} y={margin.top + plotHeight / 2} textAnchor="middle" fontSize={12} fill={TEXT_COLOR} transform={`rotate(-90 14 ${margin.top + plotHeight / 2})`}>{spec.yLabel}</text>
+        )}
+
+        <g clipPath={`url(#${clipId})`}>
+          {spec.functions.map((fn, index) => sampleFunction(fn, view.x, view.y).map((segment, segmentIndex) => (
+            <polyline
+              key={`${index}-${segmentIndex}`}
+              points={segment.map(([x, y]) => `${sx(x)},${sy(y)}`).join(' ')}
+              fill="none"
+              stroke={PLOT_COLORS[index]}
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+          )))}
+          {spec.points.map((point, index) => (
+            <g key={`p${index}`}>
+              <circle cx={sx(point.x)} cy={sy(point.y)} r={4} fill={TEXT_COLOR} stroke="#ffffff" strokeWidth={1.5} />
+              {point.label && <text x={sx(point.x) + 7} y={sy(point.y) - 7} fontSize={11} fill={TEXT_COLOR}>{point.label}</text>}
+            </g>
+          ))}
+        </g>
+
+        {/* Legend */}
+        {spec.functions.some(fn => fn.label) && spec.functions.map((fn, index) => (
+          <g key={`l${index}`} transform={`translate(${margin.left + 10} ${margin.top + 14 + index * 16})`}>
+            <line x1={0} x2={16} y1={-4} y2={-4} stroke={PLOT_COLORS[index]} strokeWidth={2} />
+            <text x={22} y={0} fontSize={11} fill={TEXT_COLOR}>{fn.label || fn.expression}</text>
+          </g>
+        ))}
+
+        {hoverX !== null && (
+          <g data-export="skip" pointerEvents="none">
+            <line x1={sx(hoverX)} x2={sx(hoverX)} y1={margin.top} y2={margin.top + plotHeight} stroke={TEXT_COLOR} strokeDasharray="3 3" />
+            {hoverValues.filter(({ y }) => y >= view.y[0] && y <= view.y[1]).map(({ index, y }) => (
+              <circle key={index} cx={sx(hoverX)} cy={sy(y)} r={4} fill={PLOT_COLORS[index]} />
+            ))}
+            <g transform={`translate(${sx(hoverX) > margin.left + plotWidth - 150 ? sx(hoverX) - 150 : sx(hoverX) + 8} ${margin.top + 8})`}>
+              <rect width={142} height={20 + hoverValues.length * 15} rx={4} fill="#18181b" fillOpacity={0.85} />
+              <text x={8} y={14} fontSize={11} fill="#ffffff">x = {formatNumber(hoverX)}</text>
+              {hoverValues.map(({ fn, index, y }, row) => (
+                <text key={index} x={8} y={29 + row * 15} fontSize={11} fill={PLOT_COLORS[index]}>
+                  {fn.label || `f${index + 1}`} = {formatNumber(y)}
+                </text>
+              ))}
+            </g>
+          </g>
+        )}
+      </svg>
+
+      <div className="flex items-center justify-between px-2 py-1 border-t border-zinc-200 dark:border-zinc-800 text-xs text-zinc-500">
+        <span className="px-1">Drag to pan, scroll to zoom, double-click to reset</span>
+        <div className="flex items-center gap-0.5">
+          <button onClick={() => zoom(1 / 1.5)} className={toolbarButtonClass} title="Zoom in">
+            <span className="material-symbols-outlined text-[18px]">zoom_in</span>
+          </button>
+          <button onClick={() => zoom(1.5)} className={toolbarButtonClass} title="Zoom out">
+            <span className="material-symbols-outlined text-[18px]">zoom_out</span>
+          </button>
+          <button onClick={() => setView({ x: spec.x, y: spec.y })} className={toolbarButtonClass} title="Reset view">
+            <span className="material-symbols-outlined text-[18px]">fit_screen</span>
+          </button>
+          <button onClick={() => handleExport('png')} className={`${toolbarButtonClass} px-1.5 font-medium`} title="Download as PNG">PNG</button>
+          <button onClick={() => handleExport('svg')} className={`${toolbarButtonClass} px-1.5 font-medium`} title="Download as SVG">SVG</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { PracticeProblem } from '../types';
+import MarkdownRenderer from './MarkdownRenderer';
+import { PracticeCheck, checkPracticeAnswer, describeAttempt, formatExpectedAnswer, previewAnswer } from '../services/practiceService';
+
+interface PracticeViewProps {
+  problem: PracticeProblem;
+  onAnswer?: (response: string, check: PracticeCheck) => void;
+  onNext?: () => void;
+  disabled?: boolean; // While the tutor is answering
+}
+
+const PLACEHOLDERS = {
+  numeric: 'Your answer, e.g. 12.5 (include units if there are any)',
+  expression: 'Your answer, e.g. 3x^2 + 2x',
+};
+
+export const PracticeView: React.FC<PracticeViewProps> = ({ problem, onAnswer, onNext, disabled }) => {
+  const [response, setResponse] = useState('');
+  const [isRetrying, setIsRetrying] = useState(false);
+  const [showSolution, setShowSolution] = useState(false);
+
+  const answer = problem.answer;
+  const attempts = problem.attempts || [];
+  const lastAttempt = attempts[attempts.length - 1];
+  const isSolved = attempts.some(attempt => attempt.correct);
+  const canAnswer = !!onAnswer && !isSolved && (!lastAttempt || isRetrying);
+  const preview = answer.kind !== 'choice' ? previewAnswer(response) : null;
+
+  // Checked right here; the tutor is only asked to explain wrong answers
+  const submit = (value: string) => {
+    if (!onAnswer || disabled || !value.trim()) return;
+    onAnswer(value.trim(), checkPracticeAnswer(answer, value));
+    setResponse('');
+    setIsRetrying(false);
+  };
+
+  return (
+    <div className="not-prose border border-zinc-200 dark:border-zinc-800 rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 bg-zinc-50 dark:bg-zinc-900 border-b border-zinc-200 dark:border-zinc-800">
+        <div className="flex items-center gap-2 font-semibold text-zinc-900 dark:text-white">
+          <span className="material-symbols-outlined text-[20px]">edit_note</span>
+          Practice problem
+        </div>
+        {attempts.length > 0 && (
+          <span className="text-xs text-zinc-500">{attempts.length} {attempts.length === 1 ? 'attempt' : 'attempts'}</span>
+        )}
+      </div>
+
+      <div className="p-4 space-y-3">
+        <div className="text-zinc-900 dark:text-zinc-100">
+          <MarkdownRenderer content={problem.question} />
+        </div>
+
+        {answer.kind === 'choice' && (
+          <div role="radiogroup" className="grid gap-2">
+            {answer.options.map((option, index) => {
+              const chosen = attempts.some(attempt => attempt.response === String(index));
+              const isCorrect = index === answer.correctIndex;
+              const isDisabled = !canAnswer || disabled || chosen;
+              return (
+                // Options are Markdown with block elements, which can't go inside a <button>
+                <div
+                  key={index}
+                  role="radio"
+                  aria-checked={chosen}
+                  aria-disabled={isDisabled}
+                  tabIndex={isDisabled ? -1 : 0}
+                  onClick={() => !isDisabled && submit(String(index))}
+                  onKeyDown={(e) => {
+                    if (!isDisabled && (e.key === 'Enter' || e.key === ' ')) {
+                      e.preventDefault();
+                      submit(String(index));
+                    }
+                  }}
+                  className={`flex items-center gap-3 text-left px-3 py-2 rounded-lg border text-sm transition-colors ${isDisabled ? '' : 'cursor-pointer'} ${
+                    chosen
+                      ? isCorrect ? 'border-green-500 bg-green-50 dark:bg-green-900/20' : 'border-red-500 bg-red-50 dark:bg-red-900/20'
+                      : canAnswer ? 'border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800' : 'border-zinc-200 dark:border-zinc-700 opacity-60'
+                  }`}
+                >
+                  <span className="size-6 shrink-0 rounded-full border border-current flex items-center justify-center text-xs font-semibold text-zinc-500">
+                    {String.fromCharCode(65 + index)}
+                  </span>
+                  <MarkdownRenderer content={option} />
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {answer.kind !== 'choice' && canAnswer && (
+          <div className="space-y-1">
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={response}
+                onChange={(e) => setResponse(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') submit(response); }}
+                placeholder={PLACEHOLDERS[answer.kind]}
+                disabled={disabled}
+                className="flex-1 px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-sm text-zinc-900 dark:text-white outline-none focus:ring-2 focus:ring-zinc-500/20 font-mono"
+              />
+              <button
+                onClick={() => submit(response)}
+                disabled={disabled || !response.trim()}
+                className="px-4 py-2 bg-zinc-900 hover:bg-zinc-800 text-white rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+              >
+                Check
+              </button>
+            </div>
+            {preview && (
+              <div className="text-sm text-zinc-500 flex items-center gap-2">
+                <span>Reads as</span>
+                <MarkdownRenderer content={`$${preview}$`} />
+              </div>
+            )}
+          </div>
+        )}
+
+        {lastAttempt && (
+          <div className={`text-sm rounded-lg px-3 py-2 ${lastAttempt.correct ? 'bg-green-50 dark:bg-green-900/10 text-green-800 dark:text-green-300' : 'bg-red-50 dark:bg-red-900/10 text-red-800 dark:text-red-300'}`}>
+            <div className="flex items-center gap-2 font-semibold">
+              <span className="material-symbols-outlined text-[18px]">{lastAttempt.correct ? 'check_circle' : 'cancel'}</span>
+              {lastAttempt.correct ? 'Correct' : 'Incorrect'}: <span className="font-mono font-normal">{describeAttempt(problem, lastAttempt.response)}</span>
+            </div>
+            {!lastAttempt.correct && <div className="mt-1">{lastAttempt.feedback}</div>}
+          </div>
+        )}
+
+        {showSolution && (
+          <div className="text-sm rounded-lg px-3 py-2 bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 text-zinc-800 dark:text-zinc-200">
+            <div className="font-semibold mb-1">Answer: <span className="font-mono font-normal">{formatExpectedAnswer(answer)}</span></div>
+            {problem.solution && <MarkdownRenderer content={problem.solution} />}
+          </div>
+        )}
+      </div>
+
+      {(lastAttempt || onNext) && (
+        <div className="flex flex-wrap items-center justify-end gap-2 px-4 py-3 bg-zinc-50 dark:bg-zinc-900 border-t border-zinc-200 dark:border-zinc-800">
+          {lastAttempt && !isSolved && !isRetrying && onAnswer && (
+            <button onClick={() => setIsRetrying(true)} className="px-3 py-1.5 text-sm font-medium rounded-lg text-zinc-700 dark:text-zinc-200 hover:bg-zinc-200 dark:hover:bg-zinc-800 transition-colors">
+              Try again
+            </button>
+          )}
+          {lastAttempt && (
+            <button onClick={() => setShowSolution(!showSolution)} className="px-3 py-1.5 text-sm font-medium rounded-lg text-zinc-700 dark:text-zinc-200 hover:bg-zinc-200 dark:hover:bg-zinc-800 transition-colors">
+              {showSolution ? 'Hide solution' : 'Show solution'}
+            </button>
+          )}
+          {onNext && (
+            <button
+              onClick={onNext}
+              disabled={disabled}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-lg bg-zinc-900 hover:bg-zinc-800 text-white transition-colors disabled:opacity-50"
+            >
+              Next problem
+              <span className="material-symbols-outlined text-[18px]">arrow_forward</span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
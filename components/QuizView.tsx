@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Quiz } from '../types';
+import MarkdownRenderer from './MarkdownRenderer';
+import { useQuizAttempts } from '../hooks/useQuizzes';
+
+interface QuizViewProps {
+  quiz: Quiz;
+}
+
+export const QuizView: React.FC<QuizViewProps> = ({ quiz }) => {
+  const [answers, setAnswers] = useState<(number | null)[]>(() => quiz.questions.map(() => null));
+  const [saved, setSaved] = useState(false);
+  const { attempts, saveAttempt } = useQuizAttempts(quiz.id);
+
+  const answeredCount = answers.filter(a => a !== null).length;
+  const isComplete = answeredCount === quiz.questions.length;
+  const score = quiz.questions.filter((q, i) => answers[i] === q.correctIndex).length;
+
+  const handleSelect = async (questionIndex: number, optionIndex: number) => {
+    if (answers[questionIndex] !== null) return; // Answers lock once chosen
+
+    const next = answers.map((a, i) => (i === questionIndex ? optionIndex : a));
+    setAnswers(next);
+
+    // Record the attempt as soon as the last question is answered
+    if (next.every(a => a !== null) && !saved) {
+      setSaved(true);
+      await saveAttempt(quiz, next as number[]);
+    }
+  };
+
+  const handleRetake = () => {
+    setAnswers(quiz.questions.map(() => null));
+    setSaved(false);
+  };
+
+  return (
+    <div className="not-prose border border-zinc-200 dark:border-zinc-800 rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 bg-zinc-50 dark:bg-zinc-900 border-b border-zinc-200 dark:border-zinc-800">
+        <div className="flex items-center gap-2 font-semibold text-zinc-900 dark:text-white">
+          <span className="material-symbols-outlined text-[20px]">quiz</span>
+          {quiz.title}
+        </div>
+        <span className="text-xs text-zinc-500">{answeredCount}/{quiz.questions.length} answered</span>
+      </div>
+
+      <div className="divide-y divide-zinc-100 dark:divide-zinc-800">
+        {quiz.questions.map((q, qi) => {
+          const selected = answers[qi];
+          const isAnswered = selected !== null;
+          return (
+            <div key={qi} className="p-4 space-y-3">
+              <div className="font-medium text-zinc-900 dark:text-zinc-100 flex gap-2">
+                <span className="text-zinc-400">{qi + 1}.</span>
+                <MarkdownRenderer content={q.question} />
+              </div>
+              <div role="radiogroup" className="grid gap-2">
+                {q.options.map((option, oi) => {
+                  const isCorrect = oi === q.correctIndex;
+                  const isSelected = oi === selected;
+                  const stateClass = !isAnswered
+                    ? 'border-zinc-200 dark:border-zinc-700 hover:bg-zinc-50 dark:hover:bg-zinc-800'
+                    : isCorrect
+                      ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
+                      : isSelected
+                        ? 'border-red-500 bg-red-50 dark:bg-red-900/20'
+                        : 'border-zinc-200 dark:border-zinc-700 opacity-60';
+                  return (
+                    // Options are Markdown with block elements, which can't go inside a <button>
+                    <div
+                      key={oi}
+                      role="radio"
+                      aria-checked={isSelected}
+                      aria-disabled={isAnswered}
+                      tabIndex={isAnswered ? -1 : 0}
+                      onClick={() => !isAnswered && handleSelect(qi, oi)}
+                      onKeyDown={(e) => {
+                        if (!isAnswered && (e.key === 'Enter' || e.key === ' ')) {
+                          e.preventDefault();
+                          handleSelect(qi, oi);
+                        }
+                      }}
+                      className={`flex items-center gap-3 text-left px-3 py-2 rounded-lg border text-sm transition-colors ${isAnswered ? '' : 'cursor-pointer'} ${stateClass}`}
+                    >
+                      <span className="size-6 shrink-0 rounded-full border border-current flex items-center justify-center text-xs font-semibold text-zinc-500">
+                        {String.fromCharCode(65 + oi)}
+                      </span>
+                      <MarkdownRenderer content={option} />
+                      {isAnswered && isCorrect && <span className="material-symbols-outlined text-[18px] text-green-600 ml-auto">check_circle</span>}
+                      {isAnswered && isSelected && !isCorrect && <span className="material-symbols-outlined text-[18px] text-red-500 ml-auto">cancel</span>}
+                    </div>
+                  );
+                })}
+              </div>
+              {isAnswered && (
+                <div className={`text-sm rounded-lg px-3 py-2 ${selected === q.correctIndex ? 'bg-green-50 dark:bg-green-900/10 text-green-800 dark:text-green-300' : 'bg-red-50 dark:bg-red-900/10 text-red-800 dark:text-red-300'}`}>
+                  <div className="font-semibold mb-1">{selected === q.correctIndex ? 'Correct!' : 'Not quite.'}</div>
+                  {q.explanation && <MarkdownRenderer content={q.explanation} />}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {isComplete && (
+        <div className="flex items-center justify-between px-4 py-3 bg-zinc-50 dark:bg-zinc-900 border-t border-zinc-200 dark:border-zinc-800">
+          <div className="text-sm font-semibold text-zinc-900 dark:text-white">
+            Score: {score}/{quiz.questions.length} ({Math.round((score / quiz.questions.length) * 100)}%)
+          </div>
+          <button
+            onClick={handleRetake}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-lg bg-zinc-900 hover:bg-zinc-800 text-white transition-colors"
+          >
+            <span className="material-symbols-outlined text-[18px]">replay</span>
+            Retake
+          </button>
+        </div>
+      )}
+
+      {attempts.length > 0 && (
+        <div className="px-4 py-3 border-t border-zinc-200 dark:border-zinc-800 text-xs text-zinc-500">
+          <div className="font-semibold uppercase tracking-wider mb-2">Past attempts</div>
+          <div className="flex flex-wrap gap-2">
+            {attempts.map(attempt => (
+              <span key={attempt.id} className="px-2 py-1 rounded-full bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300">
+                {(attempt.completedAt as Date).toLocaleDateString()} · {attempt.score}/{attempt.total}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
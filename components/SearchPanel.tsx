@@ -0,0 +1,90 @@
+import React, { useState, useDeferredValue } from 'react';
+import { ChatSession, Role, SubjectDefinition } from '../types';
+import { useSearch } from '../hooks/useSearch';
+import { DateRange, SearchFilters, SearchResult } from '../services/searchService';
+import { findSubject } from '../services/subjects';
+
+interface SearchPanelProps {
+  sessions: ChatSession[];
+  subjects: SubjectDefinition[];
+  onOpenResult: (result: SearchResult) => void;
+  children: React.ReactNode; // Regular sidebar content, shown while not searching
+}
+
+const selectClass = "flex-1 min-w-0 px-2 py-1 rounded-md border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-xs text-zinc-700 dark:text-zinc-300 outline-none";
+
+export const SearchPanel: React.FC<SearchPanelProps> = ({ sessions, subjects, onOpenResult, children }) => {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>({ subject: 'all', role: 'all', dateRange: 'any' });
+  const deferredQuery = useDeferredValue(query);
+  const isSearching = query.trim().length > 0;
+  const { results, indexing } = useSearch(sessions, deferredQuery, filters, isSearching);
+
+  return (
+    <>
+      <div className="px-3 pt-2">
+        <div className="relative">
+          <span className="material-symbols-outlined absolute left-2.5 top-1/2 -translate-y-1/2 text-[18px] text-zinc-400">search</span>
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') setQuery(''); }}
+            placeholder="Search all chats"
+            className="w-full pl-9 pr-3 py-2 rounded-lg border border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-900 text-sm text-zinc-900 dark:text-white placeholder-zinc-400 outline-none focus:ring-2 focus:ring-zinc-500/20"
+          />
+        </div>
+        {isSearching && (
+          <div className="flex gap-1.5 mt-2">
+            <select value={filters.subject} onChange={(e) => setFilters({ ...filters, subject: e.target.value })} className={selectClass}>
+              <option value="all">All subjects</option>
+              {subjects.map(subject => <option key={subject.id} value={subject.id}>{subject.name}</option>)}
+            </select>
+            <select value={filters.role} onChange={(e) => setFilters({ ...filters, role: e.target.value as Role | 'all' })} className={selectClass}>
+              <option value="all">Anyone</option>
+              <option value={Role.USER}>Me</option>
+              <option value={Role.MODEL}>Tutor</option>
+            </select>
+            <select value={filters.dateRange} onChange={(e) => setFilters({ ...filters, dateRange: e.target.value as DateRange })} className={selectClass}>
+              <option value="any">Any time</option>
+              <option value="week">Past week</option>
+              <option value="month">Past month</option>
+              <option value="year">Past year</option>
+            </select>
+          </div>
+        )}
+      </div>
+
+      {!isSearching ? children : (
+        <div className="flex-1 overflow-y-auto px-3 py-3">
+          <h3 className="px-3 text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">
+            {indexing ? 'Searching...' : `${results.length}${results.length === 50 ? '+' : ''} result${results.length === 1 ? '' : 's'}`}
+          </h3>
+          <div className="flex flex-col gap-1">
+            {results.map(result => (
+              <button
+                key={`${result.chatId}-${result.messageId}`}
+                onClick={() => onOpenResult(result)}
+                className="w-full px-3 py-2 rounded-lg text-left hover:bg-zinc-200 dark:hover:bg-zinc-800/50 transition-colors"
+              >
+                <div className="flex items-center gap-1.5 text-xs text-zinc-500">
+                  <span className="material-symbols-outlined text-[14px]">{result.role === Role.USER ? 'person' : 'school'}</span>
+                  <span className="truncate font-medium text-zinc-700 dark:text-zinc-300">{result.chatTitle}</span>
+                  <span className="shrink-0">· {findSubject(subjects, result.subject).name} · {result.timestamp.toLocaleDateString()}</span>
+                </div>
+                <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400 line-clamp-3 break-words">
+                  {result.snippet.map((part, index) => part.match
+                    ? <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/50 text-zinc-900 dark:text-white rounded px-0.5">{part.text}</mark>
+                    : <span key={index}>{part.text}</span>)}
+                </p>
+              </button>
+            ))}
+            {!indexing && results.length === 0 && (
+              <div className="text-zinc-500 text-xs px-3">No messages match.</div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
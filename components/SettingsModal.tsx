@@ -1,20 +1,65 @@
 import React, { useState, useEffect } from 'react';
-import { auth, signOut, updateProfile } from '../firebase';
+import { auth, signOut, updateProfile, isLocalMode } from '../firebase';
+import { VOICE_LANGUAGES } from '../hooks/useVoice';
+import { GenerationSettings, SubjectDefinition, SubjectId, Verbosity } from '../types';
+import { listProviders } from '../services/ai/registry';
+import { UsageDashboard } from './UsageDashboard';
+import { DEFAULT_GENERATION_SETTINGS, MAX_OUTPUT_TOKEN_OPTIONS, getGenerationSettings, saveGenerationSettings } from '../services/generationSettings';
 
 interface SettingsModalProps {
     isOpen: boolean;
     onClose: () => void;
     user: any;
+    subjects: SubjectDefinition[];
+    activeSubject: SubjectId; // Preselected on the AI tab
 }
 
-type Tab = 'general' | 'profile' | 'appearance' | 'account';
+type Tab = 'general' | 'ai' | 'usage' | 'profile' | 'appearance' | 'account';
 
-export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, user }) => {
+// Only a signed-in (non-anonymous) Firebase user has a profile to edit or an account to sign out of
+const ACCOUNT_TABS: Tab[] = ['profile', 'account'];
+
+const VERBOSITY_OPTIONS: { value: Verbosity; label: string }[] = [
+    { value: 'concise', label: 'Concise' },
+    { value: 'balanced', label: 'Balanced' },
+    { value: 'detailed', label: 'Detailed' },
+];
+
+const selectClass = "px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-sm text-zinc-900 dark:text-white outline-none focus:ring-2 focus:ring-zinc-500/20";
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, user, subjects, activeSubject }) => {
     const [activeTab, setActiveTab] = useState<Tab>('general');
     const [displayName, setDisplayName] = useState(user?.displayName || '');
     const [isUpdating, setIsUpdating] = useState(false);
     const [theme, setTheme] = useState(localStorage.getItem('theme') || 'system');
     const [enterToSend, setEnterToSend] = useState(localStorage.getItem('enterToSend') !== 'false'); // Default true
+    const [voiceLanguage, setVoiceLanguage] = useState(localStorage.getItem('voiceLanguage') || 'en-US');
+    const [pushToTalk, setPushToTalk] = useState(localStorage.getItem('pushToTalk') === 'true');
+    const [aiSubject, setAiSubject] = useState<SubjectId>(activeSubject);
+    const [aiSettings, setAiSettings] = useState<GenerationSettings>(() => getGenerationSettings(activeSubject));
+
+    // Generation settings are per subject; show the current chat's subject when opening
+    useEffect(() => {
+        if (isOpen) setAiSubject(activeSubject);
+    }, [isOpen, activeSubject]);
+
+    useEffect(() => {
+        setAiSettings(getGenerationSettings(aiSubject));
+    }, [aiSubject]);
+
+    const updateAiSettings = (update: Partial<GenerationSettings>) => {
+        const next = { ...aiSettings, ...update };
+        setAiSettings(next);
+        saveGenerationSettings(aiSubject, next);
+    };
+
+    const providers = listProviders().filter(provider => provider.isConfigured());
+    const selectedProvider = providers.find(provider => provider.id === aiSettings.provider);
+
+    const resetAiSettings = () => {
+        setAiSettings(DEFAULT_GENERATION_SETTINGS);
+        saveGenerationSettings(aiSubject, null);
+    };
 
     useEffect(() => {
         localStorage.setItem('enterToSend', String(enterToSend));
@@ -26,6 +71,12 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, u
         window.dispatchEvent(new Event('storage'));
     }, [enterToSend]);
 
+    useEffect(() => {
+        localStorage.setItem('voiceLanguage', voiceLanguage);
+        localStorage.setItem('pushToTalk', String(pushToTalk));
+        window.dispatchEvent(new Event('storage'));
+    }, [voiceLanguage, pushToTalk]);
+
     // Sync displayName when user changes
     useEffect(() => {
         if (user) setDisplayName(user.displayName || '');
@@ -90,6 +141,9 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, u
 
     if (!isOpen) return null;
 
+    const hasAccount = !isLocalMode && !!user && !user.isAnonymous;
+    const currentTab = hasAccount || !ACCOUNT_TABS.includes(activeTab) ? activeTab : 'general';
+
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
             <div className="bg-white dark:bg-zinc-950 rounded-xl shadow-2xl w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh]">
@@ -107,37 +161,55 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, u
                     <div className="w-48 bg-zinc-50 dark:bg-zinc-900/50 border-r border-zinc-200 dark:border-zinc-800 p-4 space-y-2">
                         <button
                             onClick={() => setActiveTab('general')}
-                            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'general' ? 'bg-zinc-900 text-white shadow-sm' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
+                            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${currentTab === 'general' ? 'bg-zinc-900 text-white shadow-sm' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
                         >
                             <span className="material-symbols-outlined text-[20px]">tune</span>
                             General
                         </button>
                         <button
-                            onClick={() => setActiveTab('profile')}
-                            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'profile' ? 'bg-zinc-900 text-white shadow-sm' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
+                            onClick={() => setActiveTab('ai')}
+                            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${currentTab === 'ai' ? 'bg-zinc-900 text-white shadow-sm' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
                         >
-                            <span className="material-symbols-outlined text-[20px]">person</span>
-                            Profile
+                            <span className="material-symbols-outlined text-[20px]">neurology</span>
+                            AI
                         </button>
                         <button
-                            onClick={() => setActiveTab('appearance')}
-                            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'appearance' ? 'bg-zinc-900 text-white shadow-sm' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
+                            onClick={() => setActiveTab('usage')}
+                            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${currentTab === 'usage' ? 'bg-zinc-900 text-white shadow-sm' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
                         >
-                            <span className="material-symbols-outlined text-[20px]">palette</span>
-                            Appearance
+                            <span className="material-symbols-outlined text-[20px]">data_usage</span>
+                            Usage
                         </button>
+                        {hasAccount && (
+                            <button
+                                onClick={() => setActiveTab('profile')}
+                                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${currentTab === 'profile' ? 'bg-zinc-900 text-white shadow-sm' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
+                            >
+                                <span className="material-symbols-outlined text-[20px]">person</span>
+                                Profile
+                            </button>
+                        )}
                         <button
-                            onClick={() => setActiveTab('account')}
-                            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${activeTab === 'account' ? 'bg-zinc-900 text-white shadow-sm' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
+                            onClick={() => setActiveTab('appearance')}
+                            className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${currentTab === 'appearance' ? 'bg-zinc-900 text-white shadow-sm' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
                         >
-                            <span className="material-symbols-outlined text-[20px]">manage_accounts</span>
-                            Account
+                            <span className="material-symbols-outlined text-[20px]">palette</span>
+                            Appearance
                         </button>
+                        {hasAccount && (
+                            <button
+                                onClick={() => setActiveTab('account')}
+                                className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm font-medium transition-colors ${currentTab === 'account' ? 'bg-zinc-900 text-white shadow-sm' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-200 dark:hover:bg-zinc-800'}`}
+                            >
+                                <span className="material-symbols-outlined text-[20px]">manage_accounts</span>
+                                Account
+                            </button>
+                        )}
                     </div>
 
                     {/* Content */}
                     <div className="flex-1 p-6 overflow-y-auto bg-white dark:bg-zinc-950">
-                        {activeTab === 'general' && (
+                        {currentTab === 'general' && (
                             <div className="space-y-6">
                                 <div>
                                     <h3 className="text-lg font-medium text-zinc-900 dark:text-white mb-4">Chat Preferences</h3>
@@ -156,10 +228,150 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, u
                                         </button>
                                     </div>
                                 </div>
+
+                                <div>
+                                    <h3 className="text-lg font-medium text-zinc-900 dark:text-white mb-4">Voice Input</h3>
+                                    <div className="space-y-3">
+                                        <div className="flex items-center justify-between p-4 bg-zinc-50 dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800">
+                                            <div>
+                                                <div className="font-medium text-zinc-900 dark:text-white">Dictation Language</div>
+                                                <div className="text-sm text-zinc-500">The language you speak into the microphone</div>
+                                            </div>
+                                            <select
+                                                value={voiceLanguage}
+                                                onChange={(e) => setVoiceLanguage(e.target.value)}
+                                                className="px-3 py-2 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-sm text-zinc-900 dark:text-white outline-none focus:ring-2 focus:ring-zinc-500/20"
+                                            >
+                                                {VOICE_LANGUAGES.map(language => (
+                                                    <option key={language.code} value={language.code}>{language.label}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                        <div className="flex items-center justify-between p-4 bg-zinc-50 dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800">
+                                            <div>
+                                                <div className="font-medium text-zinc-900 dark:text-white">Push to Talk</div>
+                                                <div className="text-sm text-zinc-500">
+                                                    {pushToTalk ? 'Hold the mic button or Alt+M while speaking' : 'Click the mic to start and stop'}
+                                                </div>
+                                            </div>
+                                            <button
+                                                onClick={() => setPushToTalk(!pushToTalk)}
+                                                className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${pushToTalk ? 'bg-zinc-900' : 'bg-zinc-300 dark:bg-zinc-700'}`}
+                                            >
+                                                <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${pushToTalk ? 'translate-x-6' : 'translate-x-1'}`} />
+                                            </button>
+                                        </div>
+                                    </div>
+                                </div>
                             </div>
                         )}
 
-                        {activeTab === 'profile' && (
+                        {currentTab === 'ai' && (
+                            <div className="space-y-6">
+                                <div>
+                                    <h3 className="text-lg font-medium text-zinc-900 dark:text-white mb-1">Model Settings</h3>
+                                    <p className="text-sm text-zinc-500 mb-4">Saved separately for each subject.</p>
+                                    <select value={aiSubject} onChange={(e) => setAiSubject(e.target.value)} className={`${selectClass} w-full`}>
+                                        {subjects.map(subject => (
+                                            <option key={subject.id} value={subject.id}>{subject.name}</option>
+                                        ))}
+                                    </select>
+                                </div>
+
+                                <div className="space-y-3">
+                                    <div className="flex items-center justify-between gap-4 p-4 bg-zinc-50 dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800">
+                                        <div>
+                                            <div className="font-medium text-zinc-900 dark:text-white">Provider</div>
+                                            <div className="text-sm text-zinc-500">Tried first; the others remain as fallbacks</div>
+                                        </div>
+                                        <select
+                                            value={aiSettings.provider || ''}
+                                            onChange={(e) => updateAiSettings({ provider: e.target.value || undefined, model: undefined })}
+                                            className={selectClass}
+                                        >
+                                            <option value="">Default</option>
+                                            {providers.map(provider => (
+                                                <option key={provider.id} value={provider.id}>{provider.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="flex items-center justify-between gap-4 p-4 bg-zinc-50 dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800">
+                                        <div>
+                                            <div className="font-medium text-zinc-900 dark:text-white">Model</div>
+                                            <div className="text-sm text-zinc-500">Leave empty for the provider's configured model</div>
+                                        </div>
+                                        <input
+                                            type="text"
+                                            value={aiSettings.model || ''}
+                                            onChange={(e) => updateAiSettings({ model: e.target.value || undefined })}
+                                            disabled={!selectedProvider}
+                                            placeholder={selectedProvider ? selectedProvider.model : 'Choose a provider'}
+                                            className={`${selectClass} w-48 disabled:opacity-50`}
+                                        />
+                                    </div>
+                                    <div className="p-4 bg-zinc-50 dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800">
+                                        <div className="flex items-center justify-between mb-2">
+                                            <div>
+                                                <div className="font-medium text-zinc-900 dark:text-white">Temperature</div>
+                                                <div className="text-sm text-zinc-500">Lower is more focused, higher is more varied</div>
+                                            </div>
+                                            <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300 tabular-nums">{aiSettings.temperature.toFixed(1)}</span>
+                                        </div>
+                                        <input
+                                            type="range"
+                                            min={0}
+                                            max={1}
+                                            step={0.1}
+                                            value={aiSettings.temperature}
+                                            onChange={(e) => updateAiSettings({ temperature: Number(e.target.value) })}
+                                            className="w-full accent-zinc-900"
+                                        />
+                                    </div>
+                                    <div className="flex items-center justify-between gap-4 p-4 bg-zinc-50 dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800">
+                                        <div>
+                                            <div className="font-medium text-zinc-900 dark:text-white">Max Output Length</div>
+                                            <div className="text-sm text-zinc-500">Longer answers are cut off at this many tokens</div>
+                                        </div>
+                                        <select
+                                            value={aiSettings.maxOutputTokens}
+                                            onChange={(e) => updateAiSettings({ maxOutputTokens: Number(e.target.value) })}
+                                            className={selectClass}
+                                        >
+                                            {MAX_OUTPUT_TOKEN_OPTIONS.map(tokens => (
+                                                <option key={tokens} value={tokens}>{tokens.toLocaleString()} tokens</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                    <div className="flex items-center justify-between gap-4 p-4 bg-zinc-50 dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800">
+                                        <div>
+                                            <div className="font-medium text-zinc-900 dark:text-white">Verbosity</div>
+                                            <div className="text-sm text-zinc-500">How much detail answers go into</div>
+                                        </div>
+                                        <div className="flex rounded-lg border border-zinc-300 dark:border-zinc-700 overflow-hidden">
+                                            {VERBOSITY_OPTIONS.map(option => (
+                                                <button
+                                                    key={option.value}
+                                                    onClick={() => updateAiSettings({ verbosity: option.value })}
+                                                    className={`px-3 py-1.5 text-sm font-medium transition-colors ${aiSettings.verbosity === option.value ? 'bg-zinc-900 text-white' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+                                                >
+                                                    {option.label}
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </div>
+
+                                <div className="flex justify-end">
+                                    <button onClick={resetAiSettings} className="px-4 py-2 text-sm font-medium rounded-lg text-zinc-700 dark:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors">
+                                        Reset to Defaults
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+
+                        {currentTab === 'usage' && <UsageDashboard canSync={!isLocalMode} />}
+
+                        {currentTab === 'profile' && (
                             <div className="space-y-6">
                                 <div className="flex items-center gap-4">
                                     <div className="relative group cursor-pointer">
@@ -199,7 +411,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, u
                             </div>
                         )}
 
-                        {activeTab === 'appearance' && (
+                        {currentTab === 'appearance' && (
                             <div className="space-y-6">
                                 <div>
                                     <h3 className="text-lg font-medium text-zinc-900 dark:text-white mb-4">Theme Preference</h3>
@@ -221,7 +433,7 @@ export const SettingsModal: React.FC<SettingsModalProps> = ({ isOpen, onClose, u
                             </div>
                         )}
 
-                        {activeTab === 'account' && (
+                        {currentTab === 'account' && (
                             <div className="space-y-6">
                                 <div className="bg-red-50 dark:bg-red-900/10 border border-red-200 dark:border-red-800 rounded-lg p-4">
                                     <h4 className="text-red-700 dark:text-red-400 font-medium mb-2">Danger Zone</h4>
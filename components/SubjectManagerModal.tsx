@@ -0,0 +1,220 @@
+import React, { useState, useEffect } from 'react';
+import { AttachmentKind, SubjectDefinition } from '../types';
+import { ATTACHMENT_KIND_LABELS, SUBJECT_ICONS } from '../services/subjects';
+import { listProviders } from '../services/ai/registry';
+
+type SubjectDraft = Omit<SubjectDefinition, 'id'> & { id?: string };
+
+const emptyDraft = (): SubjectDraft => ({ name: '', icon: 'school', systemPrompt: '', latex: false, attachmentKinds: [] });
+
+interface SubjectManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  customSubjects: SubjectDefinition[];
+  onSave: (subject: SubjectDraft) => Promise<string | null>;
+  onDelete: (subjectId: string) => Promise<void>;
+}
+
+const inputClass = "w-full px-3 py-2 border border-zinc-300 dark:border-zinc-700 rounded-lg bg-white dark:bg-zinc-800 text-zinc-900 dark:text-white focus:ring-2 focus:ring-zinc-500 outline-none text-sm";
+const labelClass = "block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1";
+
+export const SubjectManagerModal: React.FC<SubjectManagerModalProps> = ({ isOpen, onClose, customSubjects, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<SubjectDraft | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setDraft(null);
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const providers = listProviders().filter(provider => provider.isConfigured());
+  const preferredProvider = providers.find(provider => provider.id === draft?.preferredProvider);
+
+  const toggleKind = (kind: AttachmentKind) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      attachmentKinds: draft.attachmentKinds.includes(kind)
+        ? draft.attachmentKinds.filter(existing => existing !== kind)
+        : [...draft.attachmentKinds, kind]
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft?.name.trim()) return;
+    setIsSaving(true);
+    try {
+      const id = await onSave({ ...draft, name: draft.name.trim(), icon: draft.icon.trim() || 'school', systemPrompt: draft.systemPrompt.trim(), preferredModel: draft.preferredModel?.trim() || undefined });
+      if (id) setDraft(null);
+      else alert("Failed to save the subject. Please try again.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (subject: SubjectDefinition) => {
+    if (!confirm(`Delete "${subject.name}"? Existing chats keep their messages and continue as General.`)) return;
+    await onDelete(subject.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm animate-fade-in">
+      <div className="bg-white dark:bg-zinc-950 rounded-xl shadow-2xl w-full max-w-lg overflow-hidden flex flex-col max-h-[90vh]">
+
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-zinc-200 dark:border-zinc-800">
+          <h2 className="text-xl font-bold text-zinc-900 dark:text-white">
+            {!draft ? 'My Subjects' : draft.id ? 'Edit Subject' : 'New Subject'}
+          </h2>
+          <button onClick={onClose} className="p-2 text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-200 rounded-full transition-colors">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        {!draft ? (
+          <div className="p-6 space-y-2 overflow-y-auto">
+            {customSubjects.length === 0 && (
+              <p className="text-sm text-zinc-500">No custom subjects yet. Add one for anything the built-in subjects don't cover.</p>
+            )}
+            {customSubjects.map(subject => (
+              <div key={subject.id} className="flex items-center gap-3 px-4 py-3 rounded-lg border border-zinc-200 dark:border-zinc-800">
+                <span className="material-symbols-outlined text-zinc-500">{subject.icon}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="font-medium text-sm text-zinc-900 dark:text-white truncate">{subject.name}</div>
+                  <div className="text-xs text-zinc-500 truncate">{subject.systemPrompt || 'No extra instructions'}</div>
+                </div>
+                <button onClick={() => setDraft(subject)} className="p-1.5 text-zinc-400 hover:text-zinc-700 dark:hover:text-zinc-200 rounded transition-colors" title="Edit">
+                  <span className="material-symbols-outlined text-[18px]">edit</span>
+                </button>
+                <button onClick={() => handleDelete(subject)} className="p-1.5 text-zinc-400 hover:text-red-500 rounded transition-colors" title="Delete">
+                  <span className="material-symbols-outlined text-[18px]">delete</span>
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setDraft(emptyDraft())}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg border border-dashed border-zinc-300 dark:border-zinc-700 text-sm font-medium text-zinc-600 dark:text-zinc-300 hover:bg-zinc-50 dark:hover:bg-zinc-900 transition-colors"
+            >
+              <span className="material-symbols-outlined text-[18px]">add</span>
+              Add subject
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="p-6 space-y-4 overflow-y-auto">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  placeholder="e.g. Economics"
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className={labelClass}>Icon</label>
+                <div className="flex flex-wrap gap-1.5 mb-2">
+                  {SUBJECT_ICONS.map(icon => (
+                    <button
+                      key={icon}
+                      onClick={() => setDraft({ ...draft, icon })}
+                      className={`p-1.5 rounded-lg border transition-colors ${draft.icon === icon ? 'border-zinc-900 dark:border-white bg-zinc-100 dark:bg-zinc-800' : 'border-transparent hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+                      title={icon}
+                    >
+                      <span className="material-symbols-outlined text-[20px] text-zinc-700 dark:text-zinc-200">{icon}</span>
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="text"
+                  value={draft.icon}
+                  onChange={(e) => setDraft({ ...draft, icon: e.target.value })}
+                  placeholder="Material Symbols icon name"
+                  className={inputClass}
+                />
+              </div>
+
+              <div>
+                <label className={labelClass}>Tutor instructions</label>
+                <textarea
+                  value={draft.systemPrompt}
+                  onChange={(e) => setDraft({ ...draft, systemPrompt: e.target.value })}
+                  rows={4}
+                  placeholder="e.g. Answer in Spanish and correct any grammar mistakes in my questions."
+                  className={`${inputClass} resize-none`}
+                />
+              </div>
+
+              <label className="flex items-center justify-between gap-4">
+                <span>
+                  <span className="block text-sm font-medium text-zinc-700 dark:text-zinc-300">Math notation</span>
+                  <span className="block text-xs text-zinc-500">Write formulas in LaTeX</span>
+                </span>
+                <input type="checkbox" checked={draft.latex} onChange={(e) => setDraft({ ...draft, latex: e.target.checked })} className="size-4 accent-zinc-900" />
+              </label>
+
+              <div>
+                <span className={labelClass}>Attachments</span>
+                <p className="text-xs text-zinc-500 mb-2">PDFs and documents are always allowed.</p>
+                <div className="flex flex-col gap-1.5">
+                  {(Object.keys(ATTACHMENT_KIND_LABELS) as AttachmentKind[]).map(kind => (
+                    <label key={kind} className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+                      <input type="checkbox" checked={draft.attachmentKinds.includes(kind)} onChange={() => toggleKind(kind)} className="size-4 accent-zinc-900" />
+                      {ATTACHMENT_KIND_LABELS[kind]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <label className={labelClass}>Preferred provider</label>
+                <select
+                  value={draft.preferredProvider || ''}
+                  onChange={(e) => setDraft({ ...draft, preferredProvider: e.target.value || undefined, preferredModel: undefined })}
+                  className={inputClass}
+                >
+                  <option value="">Default</option>
+                  {providers.map(provider => (
+                    <option key={provider.id} value={provider.id}>{provider.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className={labelClass}>Model</label>
+                <input
+                  type="text"
+                  value={draft.preferredModel || ''}
+                  onChange={(e) => setDraft({ ...draft, preferredModel: e.target.value || undefined })}
+                  disabled={!preferredProvider}
+                  placeholder={preferredProvider ? preferredProvider.model : 'Choose a provider first'}
+                  className={`${inputClass} disabled:opacity-50`}
+                />
+                <p className="text-xs text-zinc-500 mt-1">Leave empty to use the provider's configured model.</p>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 px-6 py-4 border-t border-zinc-200 dark:border-zinc-800">
+              <button
+                onClick={() => setDraft(null)}
+                className="px-4 py-2 text-sm font-medium rounded-lg text-zinc-700 dark:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={!draft.name.trim() || isSaving}
+                className="px-4 py-2 bg-zinc-900 hover:bg-zinc-800 text-white rounded-lg font-medium transition-colors disabled:opacity-50"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,12 +1,14 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Subject } from '../types';
+import { SubjectDefinition, SubjectId } from '../types';
 
 interface SubjectSelectorProps {
-  activeSubject: Subject;
-  onSelect: (subject: Subject) => void;
+  subjects: SubjectDefinition[];
+  activeSubject: SubjectDefinition;
+  onSelect: (subject: SubjectId) => void;
+  onManage: () => void;
 }
 
-export const SubjectSelector: React.FC<SubjectSelectorProps> = ({ activeSubject, onSelect }) => {
+export const SubjectSelector: React.FC<SubjectSelectorProps> = ({ subjects, activeSubject, onSelect, onManage }) => {
   const [isOpen, setIsOpen] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -20,49 +22,49 @@ export const SubjectSelector: React.FC<SubjectSelectorProps> = ({ activeSubject,
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  const subjects = Object.values(Subject);
-
   return (
     <div className="relative" ref={containerRef}>
       <button
         onClick={() => setIsOpen(!isOpen)}
         className="flex items-center gap-2 px-3 py-2 bg-zinc-50 dark:bg-zinc-900 hover:bg-zinc-100 dark:hover:bg-zinc-800 text-zinc-700 dark:text-zinc-200 text-sm font-medium rounded-lg transition-colors border-r border-zinc-200 dark:border-zinc-700 h-full sm:rounded-none sm:rounded-l-lg sm:border-0"
       >
-        <span className="material-symbols-outlined text-zinc-900 dark:text-white text-[20px]">functions</span>
-        <span className="capitalize">{activeSubject}</span>
+        <span className="material-symbols-outlined text-zinc-900 dark:text-white text-[20px]">{activeSubject.icon}</span>
+        <span className="capitalize">{activeSubject.name}</span>
         <span className={`material-symbols-outlined text-zinc-400 text-[18px] transition-transform ${isOpen ? 'rotate-180' : ''}`}>expand_more</span>
       </button>
 
       {isOpen && (
-        <div className="absolute bottom-full left-0 mb-2 w-48 bg-white dark:bg-zinc-900 rounded-lg shadow-xl border border-zinc-200 dark:border-zinc-700 overflow-hidden z-50 animate-fade-in-up">
+        <div className="absolute bottom-full left-0 mb-2 w-56 max-h-96 overflow-y-auto bg-white dark:bg-zinc-900 rounded-lg shadow-xl border border-zinc-200 dark:border-zinc-700 overflow-hidden z-50 animate-fade-in-up">
           {subjects.map((sub) => (
             <button
-              key={sub}
+              key={sub.id}
               onClick={() => {
-                onSelect(sub);
+                onSelect(sub.id);
                 setIsOpen(false);
               }}
               className={`w-full flex items-center gap-3 px-4 py-2.5 text-sm transition-colors text-left
-                ${activeSubject === sub
+                ${activeSubject.id === sub.id
                   ? 'bg-zinc-100 dark:bg-zinc-800 text-zinc-900 dark:text-white font-medium'
                   : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-800/50'
                 }`}
             >
-              <span className="material-symbols-outlined text-[18px]">
-                {sub === Subject.MATH ? 'calculate' :
-                  sub === Subject.PHYSICS ? 'science' :
-                    sub === Subject.CHEMISTRY ? 'biotech' :
-                      sub === Subject.BIOLOGY ? 'eco' :
-                        sub === Subject.HISTORY ? 'history_edu' :
-                          sub === Subject.LITERATURE ? 'book_2' :
-                            sub === Subject.CODING ? 'code' : 'school'}
-              </span>
-              <span className="capitalize">{sub}</span>
-              {activeSubject === sub && (
+              <span className="material-symbols-outlined text-[18px]">{sub.icon}</span>
+              <span className="capitalize truncate">{sub.name}</span>
+              {activeSubject.id === sub.id && (
                 <span className="material-symbols-outlined text-[16px] ml-auto">check</span>
               )}
             </button>
           ))}
+          <button
+            onClick={() => {
+              onManage();
+              setIsOpen(false);
+            }}
+            className="w-full flex items-center gap-3 px-4 py-2.5 text-sm text-left text-zinc-600 dark:text-zinc-400 hover:bg-zinc-50 dark:hover:bg-zinc-800/50 border-t border-zinc-100 dark:border-zinc-800 transition-colors"
+          >
+            <span className="material-symbols-outlined text-[18px]">tune</span>
+            <span>Manage subjects...</span>
+          </button>
         </div>
       )}
     </div>
@@ -0,0 +1,234 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ProviderErrorKind, UsageLimit, UsageRecord } from '../types';
+import { getProvider, listProviders } from '../services/ai/registry';
+import { useUsage } from '../hooks/useUsage';
+import {
+  LIMIT_WARNING_RATIO, USAGE_ERROR_LABELS, clearUsageLog, dailyTotals, rangeStart, recordTokens, recordsSince, saveUsageLimit, setUsageSyncEnabled, summarizeUsage
+} from '../services/usageService';
+
+interface UsageDashboardProps {
+  canSync: boolean; // Off in local mode, where everything already stays on this device
+}
+
+const RANGES = [
+  { days: 1, label: 'Today' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+const providerLabel = (providerId: string) => getProvider(providerId)?.label || providerId;
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+const formatDay = (day: number) => new Date(day).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const Stat: React.FC<{ label: string; value: string; hint?: string }> = ({ label, value, hint }) => (
+  <div className="p-3 bg-zinc-50 dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800">
+    <div className="text-xs text-zinc-500">{label}</div>
+    <div className="text-lg font-semibold text-zinc-900 dark:text-white tabular-nums">{value}</div>
+    {hint && <div className="text-xs text-zinc-400">{hint}</div>}
+  </div>
+);
+
+const LimitInput: React.FC<{ value?: number; placeholder: string; onChange: (value?: number) => void }> = ({ value, placeholder, onChange }) => (
+  <input
+    type="number"
+    min={0}
+    value={value ?? ''}
+    placeholder={placeholder}
+    onChange={(e) => onChange(Number(e.target.value) > 0 ? Number(e.target.value) : undefined)}
+    className="w-28 px-2 py-1.5 rounded-lg border border-zinc-300 dark:border-zinc-700 bg-white dark:bg-zinc-900 text-sm text-zinc-900 dark:text-white outline-none focus:ring-2 focus:ring-zinc-500/20 tabular-nums"
+  />
+);
+
+// Today's use of one soft limit, amber once the warning threshold is crossed
+const LimitBar: React.FC<{ used: number; limit?: number }> = ({ used, limit }) => {
+  if (!limit) return null;
+  const ratio = used / limit;
+  return (
+    <div className="flex items-center gap-2 text-xs text-zinc-500 tabular-nums">
+      <div className="w-24 h-1.5 rounded-full bg-zinc-200 dark:bg-zinc-800 overflow-hidden">
+        <div className={`h-full ${ratio >= LIMIT_WARNING_RATIO ? 'bg-amber-500' : 'bg-zinc-900 dark:bg-zinc-300'}`} style={{ width: `${Math.min(1, ratio) * 100}%` }} />
+      </div>
+      {used.toLocaleString()} / {limit.toLocaleString()}
+    </div>
+  );
+};
+
+// Settings > Usage: what the AI providers were asked for, how often they failed over, and soft daily limits
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ canSync }) => {
+  const { records: localRecords, limits, syncEnabled, loadAccountUsage } = useUsage();
+  const [days, setDays] = useState(7);
+  const [source, setSource] = useState<'device' | 'account'>('device');
+  const [accountRecords, setAccountRecords] = useState<UsageRecord[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const showAccount = canSync && syncEnabled && source === 'account';
+
+  useEffect(() => {
+    if (!showAccount) return;
+    setError(null);
+    loadAccountUsage(rangeStart(days))
+      .then(setAccountRecords)
+      .catch(loadError => {
+        console.error("Error loading usage", loadError);
+        setError("Couldn't load the usage saved to your account.");
+      });
+  }, [showAccount, days, loadAccountUsage, localRecords]);
+
+  const records = useMemo(() => recordsSince(showAccount ? accountRecords : localRecords, days), [showAccount, accountRecords, localRecords, days]);
+  const summary = useMemo(() => summarizeUsage(records), [records]);
+  const daily = useMemo(() => dailyTotals(records), [records]);
+  const today = useMemo(() => recordsSince(localRecords, 1), [localRecords]);
+
+  const providers = listProviders().filter(provider => provider.isConfigured());
+  const errorTypes = (Object.entries(summary.errors) as [ProviderErrorKind, number][]).sort((a, b) => b[1] - a[1]);
+
+  const updateLimit = (providerId: string, update: Partial<UsageLimit>) => saveUsageLimit(providerId, { ...limits[providerId], ...update });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h3 className="text-lg font-medium text-zinc-900 dark:text-white mb-1">AI Usage</h3>
+        <p className="text-sm text-zinc-500 mb-4">Every request to an AI provider, including retries and fallbacks.</p>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex rounded-lg border border-zinc-300 dark:border-zinc-700 overflow-hidden">
+            {RANGES.map(range => (
+              <button
+                key={range.days}
+                onClick={() => setDays(range.days)}
+                className={`px-3 py-1.5 text-sm font-medium transition-colors ${days === range.days ? 'bg-zinc-900 text-white' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+              >
+                {range.label}
+              </button>
+            ))}
+          </div>
+          {canSync && syncEnabled && (
+            <div className="flex rounded-lg border border-zinc-300 dark:border-zinc-700 overflow-hidden">
+              {(['device', 'account'] as const).map(value => (
+                <button
+                  key={value}
+                  onClick={() => setSource(value)}
+                  className={`px-3 py-1.5 text-sm font-medium transition-colors ${source === value ? 'bg-zinc-900 text-white' : 'text-zinc-600 dark:text-zinc-400 hover:bg-zinc-100 dark:hover:bg-zinc-800'}`}
+                >
+                  {value === 'device' ? 'This device' : 'All devices'}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {showAccount && error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+        <Stat label="Requests" value={summary.requests.toLocaleString()} hint={`${summary.attempts.toLocaleString()} provider calls`} />
+        <Stat label="Tokens" value={`${summary.estimatedTokens ? '~' : ''}${summary.tokens.toLocaleString()}`} hint={summary.estimatedTokens ? 'Partly estimated' : undefined} />
+        <Stat label="Avg. latency" value={summary.avgLatencyMs === null ? '–' : `${(summary.avgLatencyMs / 1000).toFixed(1)} s`} />
+        <Stat label="Fallback rate" value={formatPercent(summary.fallbackRate)} hint="Answered by a backup provider" />
+        <Stat label="429 rate" value={formatPercent(summary.rateLimitRate)} hint={`${summary.errors.rate_limit || 0} rate limited calls`} />
+        <Stat label="Failed" value={summary.failedRequests.toLocaleString()} hint="No provider could answer" />
+      </div>
+
+      <div>
+        <h4 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Daily Totals</h4>
+        {daily.length === 0 ? (
+          <p className="text-sm text-zinc-500">No requests in this period.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-zinc-200 dark:border-zinc-800">
+            <table className="w-full text-sm">
+              <thead className="bg-zinc-50 dark:bg-zinc-900 text-zinc-500 text-xs">
+                <tr>
+                  <th className="text-left font-medium px-3 py-2">Day</th>
+                  <th className="text-left font-medium px-3 py-2">Provider</th>
+                  <th className="text-right font-medium px-3 py-2">Calls</th>
+                  <th className="text-right font-medium px-3 py-2">Tokens</th>
+                  <th className="text-right font-medium px-3 py-2">429s</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-zinc-200 dark:divide-zinc-800 text-zinc-800 dark:text-zinc-200">
+                {daily.map(row => (
+                  <tr key={`${row.day}:${row.providerId}`}>
+                    <td className="px-3 py-2">{formatDay(row.day)}</td>
+                    <td className="px-3 py-2">{providerLabel(row.providerId)}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{row.requests.toLocaleString()}</td>
+                    <td className="px-3 py-2 text-right tabular-nums">{row.tokens.toLocaleString()}</td>
+                    <td className={`px-3 py-2 text-right tabular-nums ${row.rateLimited > 0 ? 'text-amber-600 dark:text-amber-400' : ''}`}>{row.rateLimited}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {errorTypes.length > 0 && (
+        <div>
+          <h4 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-2">Errors</h4>
+          <div className="space-y-1 text-sm">
+            {errorTypes.map(([type, count]) => (
+              <div key={type} className="flex justify-between text-zinc-700 dark:text-zinc-300">
+                <span>{USAGE_ERROR_LABELS[type]}</span>
+                <span className="tabular-nums">{count}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <h4 className="text-xs font-semibold text-zinc-500 uppercase tracking-wider mb-1">Daily Soft Limits</h4>
+        <p className="text-sm text-zinc-500 mb-3">
+          You'll see a warning at {formatPercent(LIMIT_WARNING_RATIO)} of a limit. Requests are not blocked. Set these just below the provider's free-tier quota.
+        </p>
+        <div className="space-y-3">
+          {providers.map(provider => {
+            const own = today.filter(record => record.providerId === provider.id);
+            const limit = limits[provider.id] || {};
+            return (
+              <div key={provider.id} className="p-4 bg-zinc-50 dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800">
+                <div className="font-medium text-zinc-900 dark:text-white mb-2">{provider.label} <span className="text-sm font-normal text-zinc-500">({provider.model})</span></div>
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <div className="text-xs text-zinc-500">Calls per day</div>
+                    <LimitInput value={limit.dailyRequests} placeholder="No limit" onChange={(dailyRequests) => updateLimit(provider.id, { dailyRequests })} />
+                    <LimitBar used={own.length} limit={limit.dailyRequests} />
+                  </div>
+                  <div className="space-y-1">
+                    <div className="text-xs text-zinc-500">Tokens per day</div>
+                    <LimitInput value={limit.dailyTokens} placeholder="No limit" onChange={(dailyTokens) => updateLimit(provider.id, { dailyTokens })} />
+                    <LimitBar used={own.reduce((sum, record) => sum + recordTokens(record), 0)} limit={limit.dailyTokens} />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        {canSync && (
+          <div className="flex items-center justify-between p-4 bg-zinc-50 dark:bg-zinc-900 rounded-lg border border-zinc-200 dark:border-zinc-800">
+            <div>
+              <div className="font-medium text-zinc-900 dark:text-white">Save Usage to My Account</div>
+              <div className="text-sm text-zinc-500">Also store usage with your chats, to see it across devices</div>
+            </div>
+            <button
+              onClick={() => setUsageSyncEnabled(!syncEnabled)}
+              className={`relative inline-flex h-6 w-11 shrink-0 items-center rounded-full transition-colors ${syncEnabled ? 'bg-zinc-900' : 'bg-zinc-300 dark:bg-zinc-700'}`}
+            >
+              <span className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${syncEnabled ? 'translate-x-6' : 'translate-x-1'}`} />
+            </button>
+          </div>
+        )}
+        <div className="flex justify-end">
+          <button
+            onClick={() => { if (confirm("Clear the usage log on this device?")) clearUsageLog(); }}
+            className="px-4 py-2 text-sm font-medium rounded-lg text-zinc-700 dark:text-zinc-200 hover:bg-zinc-100 dark:hover:bg-zinc-800 transition-colors"
+          >
+            Clear Usage Log
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,6 +1,16 @@
 import { initializeApp } from 'firebase/app';
-import { getAuth, GoogleAuthProvider, signInWithPopup, signOut, onAuthStateChanged, signInAnonymously, updateProfile } from 'firebase/auth';
-import { getFirestore, collection, addDoc, query, orderBy, onSnapshot, serverTimestamp, doc, setDoc } from 'firebase/firestore';
+import {
+  getAuth,
+  connectAuthEmulator,
+  GoogleAuthProvider,
+  signInWithPopup as firebaseSignInWithPopup,
+  signOut as firebaseSignOut,
+  onAuthStateChanged as firebaseOnAuthStateChanged,
+  signInAnonymously as firebaseSignInAnonymously,
+  updateProfile as firebaseUpdateProfile
+} from 'firebase/auth';
+import { getStorage, connectStorageEmulator, FirebaseStorage, ref as storageRef, uploadString, getDownloadURL, getBlob } from 'firebase/storage';
+import { getFirestore, connectFirestoreEmulator, Firestore, collection, addDoc, query, orderBy, onSnapshot, serverTimestamp, doc, setDoc, updateDoc, deleteDoc, getDocs, writeBatch, where, collectionGroup } from 'firebase/firestore';
 
 const firebaseConfig = {
   apiKey: import.meta.env.VITE_FIREBASE_API_KEY,
@@ -11,13 +21,91 @@ const firebaseConfig = {
   appId: import.meta.env.VITE_FIREBASE_APP_ID
 };
 
+// 'firestore' (default) or 'indexeddb'. The IndexedDB backend needs no Firebase project at all.
+export const storageBackend: 'firestore' | 'indexeddb' = import.meta.env.VITE_STORAGE_BACKEND === 'indexeddb' ? 'indexeddb' : 'firestore';
+export const isLocalMode = storageBackend === 'indexeddb';
+
+// Stand-in for a Firebase user when running fully locally
+const LOCAL_USER = { uid: 'local', isAnonymous: true, displayName: 'Local User', email: null, photoURL: null };
+
 const app = initializeApp(firebaseConfig);
-const auth = getAuth(app);
-const db = getFirestore(app);
+// getAuth throws without an API key, so it is only created when Firebase is in use
+const auth: any = isLocalMode ? { currentUser: LOCAL_USER } : getAuth(app);
+
+let firestore: Firestore | null = null;
+
+// Created on first use so local mode never touches Firestore
+const getDb = (): Firestore => {
+  if (!firestore) {
+    firestore = getFirestore(app);
+    const emulatorHost = import.meta.env.VITE_FIRESTORE_EMULATOR_HOST; // e.g. localhost:8080
+    if (emulatorHost) {
+      const [host, port] = String(emulatorHost).split(':');
+      connectFirestoreEmulator(firestore, host, Number(port) || 8080);
+    }
+  }
+  return firestore;
+};
+
+let fileStorage: FirebaseStorage | null = null;
+
+// Cloud Storage holds uploaded images so message documents stay small
+const getFileStorage = (): FirebaseStorage => {
+  if (!fileStorage) {
+    fileStorage = getStorage(app);
+    const emulatorHost = import.meta.env.VITE_STORAGE_EMULATOR_HOST; // e.g. localhost:9199
+    if (emulatorHost) {
+      const [host, port] = String(emulatorHost).split(':');
+      connectStorageEmulator(fileStorage, host, Number(port) || 9199);
+    }
+  }
+  return fileStorage;
+};
+
+if (!isLocalMode && import.meta.env.VITE_AUTH_EMULATOR_URL) {
+  connectAuthEmulator(auth, import.meta.env.VITE_AUTH_EMULATOR_URL); // e.g. http://localhost:9099
+}
+
+// --- AUTH (local-aware) ---
+const onAuthStateChanged = (authInstance: any, callback: (user: any) => void) => {
+  if (isLocalMode) {
+    callback(LOCAL_USER);
+    return () => { };
+  }
+  return firebaseOnAuthStateChanged(authInstance, callback);
+};
+
+const signInAnonymously = async (authInstance: any) => {
+  if (isLocalMode) return { user: LOCAL_USER };
+  return firebaseSignInAnonymously(authInstance);
+};
+
+const signInWithPopup = async (authInstance: any, provider: GoogleAuthProvider) => {
+  if (isLocalMode) throw new Error("Sign-in is unavailable in local storage mode.");
+  return firebaseSignInWithPopup(authInstance, provider);
+};
+
+const signOut = async (authInstance: any) => {
+  if (isLocalMode) return;
+  return firebaseSignOut(authInstance);
+};
+
+const updateProfile = async (user: any, profile: { displayName?: string | null; photoURL?: string | null }) => {
+  if (isLocalMode) {
+    Object.assign(LOCAL_USER, profile);
+    return;
+  }
+  return firebaseUpdateProfile(user, profile);
+};
 
 export {
   auth,
-  db,
+  getDb,
+  getFileStorage,
+  storageRef,
+  uploadString,
+  getDownloadURL,
+  getBlob,
   GoogleAuthProvider,
   signInWithPopup,
   signOut,
@@ -31,5 +119,11 @@ export {
   serverTimestamp,
   doc,
   setDoc,
+  updateDoc,
+  deleteDoc,
+  getDocs,
+  collectionGroup,
+  writeBatch,
+  where,
   updateProfile
-};
\ No newline at end of file
+};
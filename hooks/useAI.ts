@@ -1,170 +1,380 @@
 import { useState, useCallback } from 'react';
-import { GoogleGenerativeAI } from "@google/generative-ai";
-import Groq from "groq-sdk";
-import { Subject, Message, Role } from '../types';
+import { SubjectDefinition, Message, Role, Quiz, Attachment, ChatSummary, PedagogyMode, PracticeProblem, ResponseSource, ProviderErrorKind, UsageFeature, UsageRecord } from '../types';
+import { AIProvider, ChatTurn, GenerateRequest, ImagePart, TokenUsage } from '../services/ai/types';
+import { resolveProviderChain } from '../services/ai/registry';
+import { getSystemInstruction, withConversationSummary, withVerbosity, buildSummaryPrompt } from '../services/ai/prompts';
+import { toChatTurn, fitTurns, getHistoryBudget, getOutputReserve, splitForSummary, trimText, estimateTokens, estimateTurnTokens } from '../services/ai/context';
+import { QUIZ_PROMPT, parseQuiz } from '../services/quizService';
+import { FLASHCARD_PROMPT, FlashcardDraft, parseFlashcards } from '../services/flashcardService';
+import { PRACTICE_PROMPT, parsePracticeProblem } from '../services/practiceService';
+import { storage } from '../services/storage';
+import { isInlineImage } from '../services/storage/blobUtils';
+import { getGenerationSettings } from '../services/generationSettings';
+import { isUsageSyncEnabled, logUsage } from '../services/usageService';
+import { ResilienceCallbacks, runWithResilience, toProviderError } from '../services/ai/resilience';
+import { auth } from '../firebase';
+
+export interface SendMessageOptions {
+    text: string;
+    subject: SubjectDefinition;
+    previousMessages: Message[];
+    attachments?: Attachment[];
+    onToken?: (partialText: string) => void;
+    // Rolling summary stored with the chat; a new one is reported when older turns get folded in
+    summary?: ChatSummary;
+    onSummaryUpdate?: (summary: ChatSummary) => void;
+    // Pedagogy mode of the chat; hintLevel is how much help the student unlocked in hint mode
+    mode?: PedagogyMode;
+    hintLevel?: number;
+    // The answer hit the output length limit set in Settings > AI
+    onTruncated?: () => void;
+    // Which provider and model produced the answer, for feedback analytics
+    onSource?: (source: ResponseSource) => void;
+}
 
 interface UseAIReturn {
-    sendMessage: (text: string, subject: Subject, previousMessages: Message[], attachment?: { content: string, type: 'image' | 'text', mimeType?: string }) => Promise<string>;
+    sendMessage: (options: SendMessageOptions) => Promise<string>;
+    generateQuiz: (subject: SubjectDefinition, previousMessages: Message[]) => Promise<Quiz>;
+    generateFlashcards: (subject: SubjectDefinition, previousMessages: Message[]) => Promise<{ title: string; cards: FlashcardDraft[] }>;
+    generatePracticeProblem: (subject: SubjectDefinition, previousMessages: Message[]) => Promise<PracticeProblem>;
     isLoading: boolean;
     error: string | null;
     statusMessage: string | null;
 }
 
+// Only the most recent images in a thread are resent; older ones stay as text labels
+const MAX_HISTORY_IMAGES = 3;
+
+const toImagePart = (dataUrl: string, mimeType?: string): ImagePart => ({
+    // Extract base64 without prefix if present, though usually handled by file reader
+    data: dataUrl.split(',')[1] || dataUrl,
+    mimeType: mimeType || "image/jpeg"
+});
+
+// Uploaded images are fetched back once per session
+const imageCache = new Map<string, ImagePart>();
+
+const loadImagePart = async (attachment: Attachment): Promise<ImagePart | null> => {
+    const cacheKey = attachment.storagePath;
+    if (cacheKey && imageCache.has(cacheKey)) return imageCache.get(cacheKey)!;
+
+    try {
+        const dataUrl = await storage.attachments.loadDataUrl(attachment);
+        if (!dataUrl) return null;
+        const part = toImagePart(dataUrl, attachment.mimeType);
+        if (cacheKey) imageCache.set(cacheKey, part);
+        return part;
+    } catch (loadError) {
+        console.warn("Could not load image from history", loadError);
+        return null;
+    }
+};
+
+// Provider tried first and, optionally, the model to ask it for instead of its configured one
+type ModelPreference = Pick<SubjectDefinition, 'preferredProvider' | 'preferredModel'>;
+
+// A provider picked in Settings > AI replaces the subject's own choice
+const getModelPreference = (subject: SubjectDefinition): ModelPreference => {
+    const settings = getGenerationSettings(subject.id);
+    return settings.provider
+        ? { preferredProvider: settings.provider, preferredModel: settings.model?.trim() }
+        : { preferredProvider: subject.preferredProvider, preferredModel: subject.preferredModel };
+};
+
+type FallbackRequest = Omit<GenerateRequest, 'model' | 'onChunk' | 'onTruncated' | 'onUsage'> & { preference?: ModelPreference };
+
+interface FallbackCallbacks extends ResilienceCallbacks {
+    onChunk?: (chunk: string) => void;
+    onTruncated?: () => void;
+    onAnswered?: (source: ResponseSource) => void;
+}
+
+// Every provider attempt goes to the local usage log, and to the user's data if they turned that on
+const saveUsage = (records: UsageRecord[]) => {
+    logUsage(records);
+    const userId = auth.currentUser?.uid;
+    if (userId && isUsageSyncEnabled()) {
+        storage.usage.recordUsage(userId, records).catch(syncError => console.warn("Could not sync usage", syncError));
+    }
+};
+
+// Walks the provider chain with the shared retry, backoff and circuit breaker policy (services/ai/resilience.ts).
+// History is trimmed to each provider's own budget, so a small local model still gets a valid request.
+const generateWithFallback = async (chain: AIProvider[], { preference, ...request }: FallbackRequest, callbacks: FallbackCallbacks, feature: UsageFeature): Promise<string> => {
+    const requestId = crypto.randomUUID();
+    const usageRecords: UsageRecord[] = [];
+
+    const track = (provider: AIProvider, model: string, startedAt: number, fallbackReason: ProviderErrorKind | undefined, outcome: Pick<UsageRecord, 'ok' | 'promptTokens' | 'completionTokens' | 'estimatedTokens' | 'errorType'>) => {
+        const latencyMs = Math.round(performance.now() - startedAt);
+        usageRecords.push({ id: crypto.randomUUID(), requestId, feature, providerId: provider.id, model, latencyMs, fallbackReason, timestamp: Date.now(), ...outcome });
+        return latencyMs;
+    };
+
+    try {
+        return await runWithResilience(chain, async (provider, { fallbackReason }) => {
+            const startedAt = performance.now();
+            // Fallback providers keep their own model
+            const model = (provider.id === preference?.preferredProvider && preference.preferredModel) || provider.model;
+            try {
+                const budget = getHistoryBudget(provider, request.systemInstruction, request.prompt, request.options?.maxOutputTokens);
+                const history = fitTurns(request.history, budget);
+                const reported: { usage?: TokenUsage } = {};
+                const response = await provider.generate({
+                    ...request,
+                    model,
+                    history,
+                    options: { ...request.options, maxOutputTokens: getOutputReserve(provider, request.options?.maxOutputTokens) },
+                    onChunk: callbacks.onChunk,
+                    onTruncated: callbacks.onTruncated,
+                    onUsage: (usage) => { reported.usage = usage; }
+                });
+                if (!response) throw new Error(`Empty response from ${provider.label}`);
+
+                // Not every provider reports token counts; estimate them the same way the context budget does
+                const latencyMs = track(provider, model, startedAt, fallbackReason, {
+                    ok: true,
+                    promptTokens: reported.usage?.promptTokens ?? estimateTokens(request.systemInstruction) + [...history, request.prompt].reduce((sum, turn) => sum + estimateTurnTokens(turn), 0),
+                    completionTokens: reported.usage?.completionTokens ?? estimateTokens(response),
+                    estimatedTokens: !reported.usage,
+                });
+                callbacks.onAnswered?.({ providerId: provider.id, model, latencyMs });
+                return response;
+            } catch (rawError) {
+                const providerError = toProviderError(rawError, provider);
+                track(provider, model, startedAt, fallbackReason, { ok: false, promptTokens: 0, completionTokens: 0, estimatedTokens: false, errorType: providerError.kind });
+                throw providerError;
+            }
+        }, callbacks);
+    } finally {
+        saveUsage(usageRecords);
+    }
+};
+
 export const useAI = (): UseAIReturn => {
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [statusMessage, setStatusMessage] = useState<string | null>(null);
 
-    const sendMessage = useCallback(async (text: string, subject: Subject, previousMessages: Message[], attachment?: { content: string, type: 'image' | 'text', mimeType?: string }) => {
+    const sendMessage = useCallback(async ({ text, subject, previousMessages, attachments = [], onToken, summary, onSummaryUpdate, mode, hintLevel, onTruncated, onSource }: SendMessageOptions) => {
         setIsLoading(true);
         setError(null);
         setStatusMessage(null);
 
-        // Common System Instruction
-        let systemInstruction = `You are an expert ${subject} tutor. If the user asks for a comparison or list, ALWAYS format the output as a Markdown Table.`;
-        if ([Subject.MATH, Subject.PHYSICS, Subject.CHEMISTRY].includes(subject)) {
-            systemInstruction += ` Use LaTeX for all math equations. Wrap block equations in $$ and inline in $. Provide clear, step-by-step explanations.`;
-        }
+        // Streamed text accumulates here; onToken always receives the full text so far,
+        // so a fallback restarting the answer can simply reset it.
+        let streamedText = '';
+        const emit = (chunk: string) => {
+            if (!chunk) return;
+            streamedText += chunk;
+            onToken?.(streamedText);
+        };
+        const resetStream = () => {
+            if (streamedText) {
+                streamedText = '';
+                onToken?.('');
+            }
+        };
 
-        // --- TRAFFIC ROUTER LOGIC ---
-        // IF image attachment -> Gemini (Vision)
-        // IF text only -> Groq (Llama 3) -> Fallback to Gemini
+        try {
+            const images = attachments.filter(attachment => attachment.type === 'image');
+            const textFiles = attachments.filter(attachment => attachment.type === 'text');
+            const hasImage = images.length > 0;
 
-        const hasImage = attachment?.type === 'image';
+            // Only messages after the stored summary are sent verbatim
+            const summaryIndex = summary ? previousMessages.findIndex(msg => msg.id === summary.throughMessageId) : -1;
+            let unsummarized = previousMessages.slice(summaryIndex + 1);
+            const historyHasImages = unsummarized.some(msg => msg.attachments?.some(attachment => attachment.type === 'image'));
 
-        if (hasImage) {
-            // --- ROUTE: GEMINI VISION ---
-            console.log("Image detected, routing to Gemini Vision");
-            setStatusMessage("Analyzing image...");
+            // --- TRAFFIC ROUTER LOGIC ---
+            // Walk the configured provider chain (see services/ai/registry.ts), skipping
+            // providers that are not configured or cannot handle images when the turn or its
+            // recent history has one. Follow-ups can still fall back to text-only providers.
+            const settings = getGenerationSettings(subject.id);
+            const options = { temperature: settings.temperature, maxOutputTokens: settings.maxOutputTokens };
+            const preference = getModelPreference(subject);
+            let chain = resolveProviderChain({ vision: hasImage || historyHasImages, preferredProvider: preference.preferredProvider });
+            if (chain.length === 0 && !hasImage) chain = resolveProviderChain({ preferredProvider: preference.preferredProvider });
+            if (chain.length === 0) {
+                throw new Error(hasImage ? "No vision-capable AI provider is configured." : "No AI provider is configured.");
+            }
+            const canSeeImages = chain[0].capabilities.vision;
 
-            try {
-                const geminiApiKey = import.meta.env.VITE_GEMINI_API_KEY;
-                if (!geminiApiKey) throw new Error("Gemini API Key missing");
-
-                const genAI = new GoogleGenerativeAI(geminiApiKey);
-
-                // Construct History with text-only parts for simplicity in this demo, 
-                // or proper structures if needed. OpenAI/Gemini SDKs differ in history format.
-                // For this implementation, we'll send the prompt + image as a single turn generated content
-                // because typically history doesn't persist images well in these lightweight demos without storage.
-
-                const model = genAI.getGenerativeModel({ model: "gemini-1.5-flash", systemInstruction });
-
-                // Construct parts
-                const promptParts: any[] = [{ text }];
-                if (attachment && attachment.content) {
-                    // Extract base64 without prefix if present, though usually handled by file reader
-                    const base64Data = attachment.content.split(',')[1] || attachment.content;
-                    promptParts.push({
-                        inlineData: {
-                            data: base64Data,
-                            mimeType: attachment.mimeType || "image/jpeg"
-                        }
-                    });
+            // The primary provider's window decides how much fits before older turns get summarized.
+            // Text attachments may use at most half of it, shared equally between files.
+            const baseInstruction = withVerbosity(getSystemInstruction(subject, mode, hintLevel), settings.verbosity);
+            const attachmentBudget = Math.floor(getHistoryBudget(chain[0], baseInstruction, { role: Role.USER, text }, options.maxOutputTokens) / 2 / Math.max(1, textFiles.length));
+
+            // Appending text attachment content to prompt if it's code/text file
+            const prompt: ChatTurn = {
+                role: Role.USER,
+                text: text + textFiles.map(file =>
+                    `\n\n[Attached File Content${file.fileName ? `: ${file.fileName}` : ''}]:\n${trimText(file.content, attachmentBudget)}`
+                ).join(''),
+            };
+            if (hasImage) {
+                // Resent turns (edits, regenerations) carry already-uploaded images
+                const parts = await Promise.all(images.map(image =>
+                    isInlineImage(image.content) ? toImagePart(image.content, image.mimeType) : loadImagePart(image)));
+                prompt.images = parts.filter((part): part is ImagePart => part !== null);
+            }
+
+            // --- CONTEXT WINDOW ---
+            // If the unsummarized turns overflow the budget, the oldest are folded into an
+            // updated summary first.
+            let activeSummary = summary;
+
+            const budget = getHistoryBudget(chain[0], withConversationSummary(baseInstruction, summary), prompt, options.maxOutputTokens);
+            const { recent, overflow } = splitForSummary(unsummarized, budget);
+            if (overflow.length > 0) {
+                setStatusMessage("Condensing earlier conversation...");
+                try {
+                    const transcript = overflow.map(msg => {
+                        const turn = toChatTurn(msg);
+                        return `${msg.role === Role.USER ? 'Student' : 'Tutor'}: ${turn.text}`;
+                    }).join('\n\n');
+                    const summaryText = await generateWithFallback(chain, {
+                        systemInstruction: "You condense tutoring conversations into compact study notes.",
+                        history: [],
+                        prompt: { role: Role.USER, text: buildSummaryPrompt(summary?.text, trimText(transcript, Math.floor(budget * 0.8))) },
+                        options: { temperature: 0.2, maxOutputTokens: 512 },
+                        preference
+                    }, { onStatus: setStatusMessage }, 'summary');
+
+                    activeSummary = { text: summaryText.trim(), throughMessageId: overflow[overflow.length - 1].id };
+                    onSummaryUpdate?.(activeSummary);
+                    unsummarized = recent;
+                } catch (summaryError) {
+                    // Not fatal: the per-provider trimming below still keeps the request within limits
+                    console.warn("Failed to summarize history, dropping oldest turns instead.", summaryError);
                 }
+                setStatusMessage(null);
+            }
 
-                const result = await model.generateContent(promptParts);
-                const response = result.response.text();
-                return response;
+            const systemInstruction = withConversationSummary(baseInstruction, activeSummary);
+
+            // Recent images stay in the conversation so follow-ups ("what about question 3?") can refer to them
+            const recentImages = new Set(unsummarized
+                .flatMap(msg => msg.attachments || [])
+                .filter(attachment => attachment.type === 'image')
+                .slice(-MAX_HISTORY_IMAGES));
+            const history = await Promise.all(unsummarized.map(async (msg): Promise<ChatTurn> => {
+                const turn = toChatTurn(msg);
+                const toLoad = (msg.attachments || []).filter(attachment => recentImages.has(attachment));
+                if (!canSeeImages || toLoad.length === 0) return turn;
+                const loaded = (await Promise.all(toLoad.map(loadImagePart))).filter((part): part is ImagePart => part !== null);
+                return loaded.length > 0 ? { ...turn, images: loaded } : turn;
+            }));
 
-            } catch (visionError: any) {
-                console.error("Gemini Vision failed", visionError);
-                setError(visionError.message || "Failed to analyze image.");
-                throw visionError;
+            if (hasImage) {
+                setStatusMessage(images.length > 1 ? "Analyzing images..." : "Analyzing image...");
             }
 
-        } else {
-            // --- ROUTE: GROQ (Text) ---
-            try {
-                const groqApiKey = import.meta.env.VITE_GROQ_API_KEY;
-                if (!groqApiKey) throw new Error("Groq API Key missing");
+            return await generateWithFallback(chain, { systemInstruction, history, prompt, options, preference }, {
+                onChunk: (chunk) => {
+                    setStatusMessage(null);
+                    emit(chunk);
+                },
+                onTruncated,
+                onStatus: setStatusMessage,
+                onRestart: resetStream,
+                onAnswered: onSource
+            }, 'chat');
+        } catch (finalError: any) {
+            console.error("All AI services failed.", finalError);
+            setError(finalError?.message || "All AI services are currently busy.");
+            throw finalError;
+        } finally {
+            setIsLoading(false);
+            setStatusMessage(null);
+        }
+    }, []);
 
-                const groq = new Groq({ apiKey: groqApiKey, dangerouslyAllowBrowser: true });
+    const generateQuiz = useCallback(async (subject: SubjectDefinition, previousMessages: Message[]) => {
+        setIsLoading(true);
+        setError(null);
+        setStatusMessage("Writing your quiz...");
 
-                // Appending text attachment content to prompt if it's code/text file
-                let finalPrompt = text;
-                if (attachment?.type === 'text') {
-                    finalPrompt += `\n\n[Attached File Content]:\n${attachment.content}`;
-                }
+        try {
+            const preference = getModelPreference(subject);
+            const chain = resolveProviderChain({ preferredProvider: preference.preferredProvider });
+            if (chain.length === 0) throw new Error("No AI provider is configured.");
 
-                // Transform history for Groq
-                const messages: any[] = [
-                    { role: "system", content: systemInstruction },
-                    ...previousMessages.map(msg => ({
-                        role: msg.role === Role.USER ? "user" : "assistant",
-                        content: msg.content + (msg.attachment?.type === 'text' ? `\n[File]: ${msg.attachment.content}` : '') // simplified context
-                    })),
-                    { role: "user", content: finalPrompt }
-                ];
-
-                const completion = await groq.chat.completions.create({
-                    messages: messages,
-                    model: "llama-3.3-70b-versatile",
-                    temperature: 0.7,
-                    max_tokens: 1024,
-                });
+            const raw = await generateWithFallback(chain, {
+                systemInstruction: getSystemInstruction(subject),
+                history: previousMessages.map(toChatTurn),
+                prompt: { role: Role.USER, text: QUIZ_PROMPT },
+                options: { temperature: 0.4, maxOutputTokens: 2048 },
+                preference
+            }, { onStatus: setStatusMessage }, 'quiz');
 
-                const response = completion.choices[0]?.message?.content;
-                if (!response) throw new Error("Empty response from Groq");
+            return parseQuiz(raw, subject);
+        } catch (quizError: any) {
+            console.error("Quiz generation failed.", quizError);
+            setError(quizError?.message || "Failed to generate a quiz.");
+            throw quizError;
+        } finally {
+            setIsLoading(false);
+            setStatusMessage(null);
+        }
+    }, []);
 
-                return response;
+    const generatePracticeProblem = useCallback(async (subject: SubjectDefinition, previousMessages: Message[]) => {
+        setIsLoading(true);
+        setError(null);
+        setStatusMessage("Writing a practice problem...");
 
-            } catch (groqError: any) {
-                console.warn("Groq Limit/Error hit, switching to Gemini Fallback...", groqError);
-                setStatusMessage("Traffic high. Switching to backup AI...");
+        try {
+            const preference = getModelPreference(subject);
+            const chain = resolveProviderChain({ preferredProvider: preference.preferredProvider });
+            if (chain.length === 0) throw new Error("No AI provider is configured.");
 
-                // --- FALLBACK: GEMINI FLASH (Text) ---
-                let attempt = 0;
-                const maxRetries = 1;
+            const raw = await generateWithFallback(chain, {
+                systemInstruction: getSystemInstruction(subject),
+                history: previousMessages.map(toChatTurn),
+                prompt: { role: Role.USER, text: PRACTICE_PROMPT },
+                options: { temperature: 0.7, maxOutputTokens: 2048 },
+                preference
+            }, { onStatus: setStatusMessage }, 'practice');
 
-                try {
-                    const geminiApiKey = import.meta.env.VITE_GEMINI_API_KEY;
-                    if (!geminiApiKey) throw new Error("Gemini API Key missing");
-
-                    const genAI = new GoogleGenerativeAI(geminiApiKey);
-
-                    // Simple text history mapping
-                    const geminiHistory = previousMessages.map(msg => ({
-                        role: msg.role === Role.USER ? 'user' : 'model',
-                        parts: [{ text: msg.content }]
-                    }));
-
-                    const model = genAI.getGenerativeModel({
-                        model: "gemini-1.5-flash", // Updated to 1.5 Flash as requested
-                        systemInstruction: systemInstruction,
-                    });
-
-                    const chat = model.startChat({
-                        history: geminiHistory,
-                        generationConfig: { maxOutputTokens: 1000, temperature: 0.7 }
-                    });
-
-                    while (attempt <= maxRetries) {
-                        try {
-                            const result = await chat.sendMessage(text + (attachment?.type === 'text' ? `\n\nFile Content:\n${attachment.content}` : ''));
-                            return result.response.text();
-                        } catch (geminiErr: any) {
-                            const is429 = geminiErr.message?.includes('429') || geminiErr.status === 429;
-                            if (is429 && attempt < maxRetries) {
-                                setStatusMessage("Server busy. Retrying backup connection...");
-                                await new Promise(resolve => setTimeout(resolve, 3000));
-                                attempt++;
-                                continue;
-                            } else {
-                                throw geminiErr;
-                            }
-                        }
-                    }
-                    throw new Error("Max retries exceeded on fallback.");
-
-                } catch (finalError: any) {
-                    console.error("All AI services failed.", finalError);
-                    setError(finalError.message || "All AI services are currently busy.");
-                    throw finalError;
-                }
-            }
+            return parsePracticeProblem(raw, subject);
+        } catch (practiceError: any) {
+            console.error("Practice problem generation failed.", practiceError);
+            setError(practiceError?.message || "Failed to generate a practice problem.");
+            throw practiceError;
+        } finally {
+            setIsLoading(false);
+            setStatusMessage(null);
+        }
+    }, []);
+
+    const generateFlashcards = useCallback(async (subject: SubjectDefinition, previousMessages: Message[]) => {
+        setIsLoading(true);
+        setError(null);
+        setStatusMessage("Making flashcards...");
+
+        try {
+            const preference = getModelPreference(subject);
+            const chain = resolveProviderChain({ preferredProvider: preference.preferredProvider });
+            if (chain.length === 0) throw new Error("No AI provider is configured.");
+
+            const raw = await generateWithFallback(chain, {
+                systemInstruction: getSystemInstruction(subject),
+                history: previousMessages.map(toChatTurn),
+                prompt: { role: Role.USER, text: FLASHCARD_PROMPT },
+                options: { temperature: 0.4, maxOutputTokens: 2048 },
+                preference
+            }, { onStatus: setStatusMessage }, 'flashcards');
+
+            return parseFlashcards(raw, subject.name);
+        } catch (flashcardError: any) {
+            console.error("Flashcard generation failed.", flashcardError);
+            setError(flashcardError?.message || "Failed to make flashcards.");
+            throw flashcardError;
+        } finally {
+            setIsLoading(false);
+            setStatusMessage(null);
         }
     }, []);
 
-    return { sendMessage, isLoading, error, statusMessage };
+    return { sendMessage, generateQuiz, generateFlashcards, generatePracticeProblem, isLoading, error, statusMessage };
 };
@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+import { Attachment } from '../types';
+import { storage } from '../services/storage';
+
+// Resolves an image attachment to something an <img> can show, whichever backend stored it
+export const useAttachmentUrl = (attachment?: Attachment) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!attachment || attachment.type !== 'image') {
+      setUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    storage.attachments.getDisplayUrl(attachment)
+      .then(resolved => { if (!cancelled) setUrl(resolved || null); })
+      .catch(err => console.error("Failed to load attachment", err));
+
+    return () => { cancelled = true; };
+  }, [attachment?.storagePath, attachment?.url, attachment?.content]);
+
+  return url;
+};
@@ -0,0 +1,33 @@
+import { useState, useEffect, useCallback } from 'react';
+import { auth, onAuthStateChanged } from '../firebase';
+import { FeedbackEntry } from '../types';
+import { storage } from '../services/storage';
+
+export const useFeedback = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (user: any) => {
+      setUserId(user ? user.uid : null);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const recordFeedback = useCallback(async (entry: FeedbackEntry) => {
+    if (!userId) return;
+
+    try {
+      await storage.feedback.recordFeedback(userId, entry);
+    } catch (dbError) {
+      console.error("Error sending feedback", dbError);
+    }
+  }, [userId]);
+
+  // Throws so the analytics view can tell the user when reading everyone's feedback is not allowed
+  const loadFeedback = useCallback(async (allUsers: boolean): Promise<FeedbackEntry[]> => {
+    if (!userId) return [];
+    return storage.feedback.loadFeedback(userId, allUsers);
+  }, [userId]);
+
+  return { userId, recordFeedback, loadFeedback };
+};
@@ -1,6 +1,11 @@
 import { useState, useEffect, useCallback } from 'react';
-import { db, collection, addDoc, query, orderBy, onSnapshot, serverTimestamp, auth, onAuthStateChanged, doc, setDoc } from '../firebase';
-import { Message, Role, Subject, Attachment, ChatSession } from '../types';
+import { auth, onAuthStateChanged } from '../firebase';
+import { Message, Role, SubjectId, ChatSession } from '../types';
+import { storage } from '../services/storage';
+import { ChatUpdate, MessageUpdate } from '../services/storage/types';
+
+// Optional payloads stored alongside a message's text
+export type MessageExtras = Partial<Pick<Message, 'attachments' | 'quiz' | 'practice' | 'deckId' | 'parentId' | 'hintLevel' | 'truncated' | 'source'>>;
 
 export const useChatList = () => {
   const [sessions, setSessions] = useState<ChatSession[]>([]);
@@ -21,16 +26,7 @@ export const useChatList = () => {
       return;
     }
 
-    const chatsRef = collection(db, `users/${userId}/chats`);
-    const q = query(chatsRef, orderBy('createdAt', 'desc')); // Assuming createdAt or updatedAt
-
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const chats = snapshot.docs.map(d => ({
-        id: d.id,
-        ...d.data(),
-        createdAt: d.data().createdAt?.toDate() || new Date(),
-        // Ensure subject is typed correctly or validated
-      })) as ChatSession[];
+    const unsubscribe = storage.chats.subscribeSessions(userId, (chats) => {
       setSessions(chats);
       setLoading(false);
     });
@@ -41,7 +37,7 @@ export const useChatList = () => {
   return { sessions, loading };
 }
 
-export const useFirestore = (subject: Subject) => {
+export const useFirestore = (chatId: string | null) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [userId, setUserId] = useState<string | null>(null);
   const [loadingHistory, setLoadingHistory] = useState(true);
@@ -56,65 +52,76 @@ export const useFirestore = (subject: Subject) => {
 
   // Listen to messages
   useEffect(() => {
-    if (!userId) {
-      setMessages([]); // Clear if no user
+    if (!userId || !chatId) {
+      setMessages([]); // Clear if no user or no thread selected yet
+      setLoadingHistory(false);
       return;
     }
 
-    // We store chats in users/{userId}/chats/{subject}/messages
-    const messagesRef = collection(db, `users/${userId}/chats/${subject}/messages`);
-    const q = query(messagesRef, orderBy('timestamp', 'asc'));
-
     setLoadingHistory(true);
     setMessages([]);
 
-    const unsubscribe = onSnapshot(q, (snapshot) => {
-      const msgs = snapshot.docs.map(d => ({
-        id: d.id,
-        ...d.data(),
-        timestamp: d.data().timestamp?.toDate() || new Date(),
-      })) as Message[];
-
+    const unsubscribe = storage.chats.subscribeMessages(userId, chatId, (msgs) => {
       setMessages(msgs);
       setLoadingHistory(false);
     });
 
     return () => unsubscribe();
-  }, [userId, subject]);
+  }, [userId, chatId]);
 
-  const addMessage = useCallback(async (text: string, role: Role, attachment?: Attachment) => {
-    if (!userId) return;
+  // Creates an empty thread and returns its id
+  const createNewChat = useCallback(async (subject: SubjectId): Promise<string | null> => {
+    if (!userId) return null;
 
-    const messagesRef = collection(db, `users/${userId}/chats/${subject}/messages`);
-    const chatDocRef = doc(db, `users/${userId}/chats/${subject}`);
+    try {
+      return await storage.chats.createChat(userId, subject);
+    } catch (dbError) {
+      console.error("Storage Write Error:", dbError);
+      return null;
+    }
+  }, [userId]);
+
+  const updateChat = useCallback(async (targetChatId: string, data: ChatUpdate) => {
+    if (!userId) return;
 
     try {
-      // 1. Add Message
-      await addDoc(messagesRef, {
-        role,
-        content: text,
-        timestamp: serverTimestamp(),
-        ...(attachment ? { attachment } : {})
-      });
-
-      // 2. Update Chat Metadata (Upsert)
-      // Only update if it's the last message (optimistic) or just always update
-      // We want the sidebar to show "Math" and maybe last snippet? content is simplest.
-      await setDoc(chatDocRef, {
-        subject,
-        createdAt: serverTimestamp(), // Ideally updatedAt, but Sidebar sorts by something. using createdAt for now as per plan/types? Types has createdAt. 
-        userId,
-        // Optional: lastMessage: text
-      }, { merge: true });
+      await storage.chats.updateChat(userId, targetChatId, data);
+    } catch (dbError) {
+      console.error("Storage Write Error:", dbError);
+    }
+  }, [userId]);
 
+  // targetChatId lets callers write into a thread created in the same event handler,
+  // before the chatId prop has caught up.
+  const addMessage = useCallback(async (text: string, role: Role, extras: MessageExtras = {}, targetChatId: string | null = chatId): Promise<string | null> => {
+    if (!userId || !targetChatId) return null;
+
+    const isFirstMessage = targetChatId !== chatId || messages.length === 0;
+
+    try {
+      // Images go to the attachment store; the message only keeps references to them
+      const attachments = extras.attachments?.length
+        ? await Promise.all(extras.attachments.map(attachment => storage.attachments.upload(userId, targetChatId, attachment)))
+        : undefined;
+
+      // The opening question doubles as the thread title
+      return await storage.chats.addMessage(userId, targetChatId, { role, content: text, ...extras, attachments },
+        isFirstMessage && role === Role.USER ? { title: text.slice(0, 60) } : {});
     } catch (dbError) {
-      console.error("Firestore Write Error:", dbError);
+      console.error("Storage Write Error:", dbError);
+      return null;
     }
-  }, [userId, subject]);
+  }, [userId, chatId, messages.length]);
 
-  const createNewChat = useCallback(async () => {
-    setMessages([]);
-  }, []);
+  const updateMessage = useCallback(async (messageId: string, update: MessageUpdate, targetChatId: string | null = chatId) => {
+    if (!userId || !targetChatId) return;
+
+    try {
+      await storage.chats.updateMessage(userId, targetChatId, messageId, update);
+    } catch (dbError) {
+      console.error("Storage Write Error:", dbError);
+    }
+  }, [userId, chatId]);
 
-  return { messages, addMessage, loadingHistory, userId, createNewChat };
-};
\ No newline at end of file
+  return { messages, addMessage, updateMessage, loadingHistory, userId, createNewChat, updateChat };
+};
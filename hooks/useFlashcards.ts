@@ -0,0 +1,59 @@
+import { useState, useEffect, useCallback } from 'react';
+import { auth, onAuthStateChanged } from '../firebase';
+import { Flashcard, FlashcardDeck, SubjectId } from '../types';
+import { storage } from '../services/storage';
+import { FlashcardDraft } from '../services/flashcardService';
+import { newCardSchedule, scheduleReview, ReviewQuality } from '../services/srs';
+
+// Decks are stored next to the chats, one deck per "Make Flashcards" run
+export const useFlashcards = () => {
+  const [decks, setDecks] = useState<FlashcardDeck[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (user: any) => {
+      setUserId(user ? user.uid : null);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setDecks([]);
+      setLoading(false);
+      return;
+    }
+
+    const unsubscribe = storage.flashcards.subscribeDecks(userId, (nextDecks) => {
+      setDecks(nextDecks);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  const createDeck = useCallback(async (title: string, subject: SubjectId, cards: FlashcardDraft[], chatId?: string): Promise<string | null> => {
+    if (!userId) return null;
+
+    try {
+      return await storage.flashcards.createDeck(userId, { title, subject, chatId },
+        cards.map(card => ({ front: card.front, back: card.back, ...newCardSchedule() })));
+    } catch (dbError) {
+      console.error("Storage Write Error:", dbError);
+      return null;
+    }
+  }, [userId]);
+
+  const reviewCard = useCallback(async (deckId: string, card: Flashcard, quality: ReviewQuality) => {
+    if (!userId) return;
+
+    try {
+      await storage.flashcards.updateCard(userId, deckId, card.id, scheduleReview(card, quality));
+    } catch (dbError) {
+      console.error("Storage Write Error:", dbError);
+    }
+  }, [userId]);
+
+  return { decks, loading, createDeck, reviewCard };
+};
@@ -1,6 +1,9 @@
 import { useState, useCallback } from 'react';
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { Subject, Message, Role } from '../types';
+import { createGeminiProvider } from '../services/ai/providers/gemini';
+import { getSystemInstruction } from '../services/ai/prompts';
+import { runWithResilience } from '../services/ai/resilience';
+import { getBuiltInSubject } from '../services/subjects';
 
 interface UseGeminiReturn {
   sendMessage: (text: string, subject: Subject, previousMessages: Message[]) => Promise<string>;
@@ -9,6 +12,11 @@ interface UseGeminiReturn {
   statusMessage: string | null;
 }
 
+// This hook has always used 2.0 Flash; VITE_GEMINI_MODEL only changes the model in the provider chain
+const GEMINI_MODEL = 'gemini-2.0-flash';
+const gemini = createGeminiProvider(import.meta.env.VITE_GEMINI_API_KEY, GEMINI_MODEL);
+
+// Gemini-only variant of useAI: talks to Gemini directly, without fallback.
 export const useGemini = (): UseGeminiReturn => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -19,64 +27,17 @@ export const useGemini = (): UseGeminiReturn => {
     setError(null);
     setStatusMessage(null);
 
-    let attempt = 0;
-    const maxRetries = 1;
-
     try {
-      const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-      if (!apiKey) throw new Error("Gemini API Key is not configured (VITE_GEMINI_API_KEY missing).");
-
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const history = previousMessages.map(msg => ({
-        role: msg.role === Role.USER ? 'user' : 'model',
-        parts: [{ text: msg.content }]
-      }));
-
-      // Use clear model names
-      const modelId = "gemini-2.0-flash";
-
-      let systemInstruction = `You are an expert ${subject} tutor.`;
-      if ([Subject.MATH, Subject.PHYSICS, Subject.CHEMISTRY].includes(subject)) {
-        systemInstruction += ` Use LaTeX for all math equations. Wrap block equations in $$ and inline in $. Provide clear, step-by-step explanations.`;
-      }
-
-      const model = genAI.getGenerativeModel({
-        model: modelId,
-        systemInstruction: systemInstruction,
-        safetySettings: [
-          { category: "HARM_CATEGORY_HARASSMENT", threshold: "BLOCK_ONLY_HIGH" },
-          { category: "HARM_CATEGORY_HATE_SPEECH", threshold: "BLOCK_ONLY_HIGH" },
-          { category: "HARM_CATEGORY_SEXUALLY_EXPLICIT", threshold: "BLOCK_ONLY_HIGH" },
-          { category: "HARM_CATEGORY_DANGEROUS_CONTENT", threshold: "BLOCK_ONLY_HIGH" },
-        ]
-      });
-
-      const chat = model.startChat({
-        history: history,
-        generationConfig: { maxOutputTokens: 1000, temperature: 0.7 }
-      });
+      if (!gemini.isConfigured()) throw new Error("Gemini API Key is not configured (VITE_GEMINI_API_KEY missing).");
 
-      while (attempt <= maxRetries) {
-        try {
-          const result = await chat.sendMessage(text);
-          const response = await result.response;
-          return response.text();
-        } catch (err: any) {
-          const is429 = err.message?.includes('429') || err.status === 429;
+      const history = previousMessages.map(msg => ({ role: msg.role, text: msg.content }));
 
-          if (is429 && attempt < maxRetries) {
-            console.warn("Hit 429 Rate Limit. Retrying in 3s...");
-            setStatusMessage("Server is busy (High Traffic). Retrying in 3 seconds...");
-            await new Promise(resolve => setTimeout(resolve, 3000));
-            attempt++;
-            setStatusMessage("Retrying now...");
-            continue; // Retry loop
-          } else {
-            throw err; // Not 429 or max retries reached
-          }
-        }
-      }
-      throw new Error("Max retries exceeded.");
+      // Same retry and circuit breaker policy as useAI, with a chain of one
+      return await runWithResilience([gemini], (provider) => provider.generate({
+        systemInstruction: getSystemInstruction(getBuiltInSubject(subject)),
+        history,
+        prompt: { role: Role.USER, text }
+      }), { onStatus: setStatusMessage });
 
     } catch (err: any) {
       console.error("FULL GEMINI ERROR:", err);
@@ -93,4 +54,4 @@ export const useGemini = (): UseGeminiReturn => {
   }, []);
 
   return { sendMessage, isLoading, error, statusMessage };
-};
\ No newline at end of file
+};
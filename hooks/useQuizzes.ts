@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { auth, onAuthStateChanged } from '../firebase';
+import { Quiz, QuizAttempt } from '../types';
+import { storage } from '../services/storage';
+
+// Attempts are stored per user so past scores survive retakes and reloads
+export const useQuizAttempts = (quizId: string) => {
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (user: any) => {
+      setUserId(user ? user.uid : null);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setAttempts([]);
+      return;
+    }
+
+    const unsubscribe = storage.quizzes.subscribeAttempts(userId, quizId, setAttempts);
+    return () => unsubscribe();
+  }, [userId, quizId]);
+
+  const saveAttempt = useCallback(async (quiz: Quiz, answers: number[]) => {
+    if (!userId) return;
+
+    try {
+      await storage.quizzes.addAttempt(userId, {
+        quizId: quiz.id,
+        title: quiz.title,
+        subject: quiz.subject,
+        answers,
+        score: quiz.questions.filter((q, i) => answers[i] === q.correctIndex).length,
+        total: quiz.questions.length,
+      });
+    } catch (dbError) {
+      console.error("Storage Write Error:", dbError);
+    }
+  }, [userId]);
+
+  return { attempts, saveAttempt };
+};
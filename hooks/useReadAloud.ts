@@ -0,0 +1,113 @@
+import { useState, useEffect, useCallback } from 'react';
+import { markdownToSpeech } from '../services/speechText';
+
+interface ReadAloudState {
+    messageId: string | null;
+    sentences: string[];
+    currentIndex: number;
+    isPaused: boolean;
+}
+
+interface UseReadAloudReturn {
+    isSupported: boolean;
+    isActive: boolean; // This message is the one being read
+    isPaused: boolean;
+    sentences: string[];
+    currentIndex: number;
+    toggle: () => void;
+    stop: () => void;
+}
+
+const IDLE: ReadAloudState = { messageId: null, sentences: [], currentIndex: -1, isPaused: false };
+
+const isSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// speechSynthesis is global, so playback state is shared by every bubble: starting one stops the others.
+let state: ReadAloudState = IDLE;
+let session = 0;
+const listeners = new Set<() => void>();
+
+const setState = (next: ReadAloudState) => {
+    state = next;
+    listeners.forEach(listener => listener());
+};
+
+const stopSpeaking = () => {
+    session++;
+    window.speechSynthesis.cancel();
+    setState(IDLE);
+};
+
+const startSpeaking = (messageId: string, markdown: string) => {
+    stopSpeaking();
+    const sentences = markdownToSpeech(markdown);
+    if (sentences.length === 0) return;
+
+    const current = session;
+    setState({ messageId, sentences, currentIndex: 0, isPaused: false });
+
+    // One utterance per sentence gives us a "now speaking" position and avoids
+    // Chrome cutting off long utterances after ~15 seconds.
+    sentences.forEach((sentence, index) => {
+        const utterance = new SpeechSynthesisUtterance(sentence);
+        utterance.lang = 'en-US';
+        utterance.onstart = () => {
+            if (current === session) setState({ ...state, currentIndex: index });
+        };
+        utterance.onend = () => {
+            if (current === session && index === sentences.length - 1) setState(IDLE);
+        };
+        utterance.onerror = (event) => {
+            if (event.error === 'canceled' || event.error === 'interrupted') return;
+            console.error("Speech synthesis error", event.error);
+            if (current === session) stopSpeaking();
+        };
+        window.speechSynthesis.speak(utterance);
+    });
+};
+
+export const useReadAloud = (messageId: string, content: string): UseReadAloudReturn => {
+    const [snapshot, setSnapshot] = useState(state);
+
+    useEffect(() => {
+        const listener = () => setSnapshot(state);
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    }, []);
+
+    // Leaving the chat should not keep reading an answer that is no longer on screen
+    useEffect(() => () => {
+        if (state.messageId === messageId) stopSpeaking();
+    }, [messageId]);
+
+    const isActive = snapshot.messageId === messageId;
+
+    const toggle = useCallback(() => {
+        if (!isSupported) return;
+        if (state.messageId !== messageId) {
+            startSpeaking(messageId, content);
+        } else if (state.isPaused) {
+            window.speechSynthesis.resume();
+            setState({ ...state, isPaused: false });
+        } else {
+            window.speechSynthesis.pause();
+            setState({ ...state, isPaused: true });
+        }
+    }, [messageId, content]);
+
+    const stop = useCallback(() => {
+        if (state.messageId === messageId) stopSpeaking();
+    }, [messageId]);
+
+    return {
+        isSupported,
+        isActive,
+        isPaused: isActive && snapshot.isPaused,
+        sentences: isActive ? snapshot.sentences : [],
+        currentIndex: isActive ? snapshot.currentIndex : -1,
+        toggle,
+        stop
+    };
+};
@@ -0,0 +1,56 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { auth, onAuthStateChanged } from '../firebase';
+import { ChatSession, Message } from '../types';
+import { storage } from '../services/storage';
+import { buildSearchDocuments, searchMessages, SearchFilters } from '../services/searchService';
+
+// Builds a client-side index of every thread while the search panel is open.
+// Threads are re-read only when their updatedAt moves, so reopening search is cheap.
+export const useSearch = (sessions: ChatSession[], query: string, filters: SearchFilters, enabled: boolean) => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [messagesByChat, setMessagesByChat] = useState<Map<string, Message[]>>(new Map());
+  const [indexing, setIndexing] = useState(false);
+  const loadedAtRef = useRef(new Map<string, number>());
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (user: any) => {
+      setUserId(user ? user.uid : null);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    loadedAtRef.current = new Map();
+    setMessagesByChat(new Map());
+  }, [userId]);
+
+  useEffect(() => {
+    if (!enabled || !userId) return;
+
+    const stamp = (session: ChatSession) => (session.updatedAt instanceof Date ? session.updatedAt.getTime() : 0);
+    const stale = sessions.filter(session => loadedAtRef.current.get(session.id) !== stamp(session));
+    if (stale.length === 0) return;
+
+    let cancelled = false;
+    setIndexing(true);
+    Promise.all(stale.map(async session => [session, await storage.chats.loadMessages(userId, session.id)] as const))
+      .then(loaded => {
+        if (cancelled) return;
+        loaded.forEach(([session]) => loadedAtRef.current.set(session.id, stamp(session)));
+        setMessagesByChat(prev => {
+          const next = new Map(prev);
+          loaded.forEach(([session, messages]) => next.set(session.id, messages));
+          return next;
+        });
+      })
+      .catch(err => console.error("Failed to index chats for search", err))
+      .finally(() => { if (!cancelled) setIndexing(false); });
+
+    return () => { cancelled = true; };
+  }, [enabled, userId, sessions]);
+
+  const documents = useMemo(() => buildSearchDocuments(sessions, messagesByChat), [sessions, messagesByChat]);
+  const results = useMemo(() => searchMessages(documents, query, filters), [documents, query, filters]);
+
+  return { results, indexing };
+};
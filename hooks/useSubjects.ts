@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { auth, onAuthStateChanged } from '../firebase';
+import { SubjectDefinition, SubjectId } from '../types';
+import { storage } from '../services/storage';
+import { BUILT_IN_SUBJECTS, findSubject } from '../services/subjects';
+
+// Built-in subjects followed by the user's own
+export const useSubjects = () => {
+  const [customSubjects, setCustomSubjects] = useState<SubjectDefinition[]>([]);
+  const [userId, setUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = onAuthStateChanged(auth, (user: any) => {
+      setUserId(user ? user.uid : null);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!userId) {
+      setCustomSubjects([]);
+      return;
+    }
+
+    const unsubscribe = storage.subjects.subscribeSubjects(userId, setCustomSubjects);
+    return () => unsubscribe();
+  }, [userId]);
+
+  const subjects = useMemo(() => [...BUILT_IN_SUBJECTS, ...customSubjects], [customSubjects]);
+
+  const getSubject = useCallback((id: SubjectId) => findSubject(subjects, id), [subjects]);
+
+  // Returns the saved subject's id, or null if it could not be stored
+  const saveSubject = useCallback(async (subject: Omit<SubjectDefinition, 'id'> & { id?: SubjectId }): Promise<string | null> => {
+    if (!userId) return null;
+
+    const id = subject.id || crypto.randomUUID();
+    try {
+      await storage.subjects.saveSubject(userId, { ...subject, id, builtIn: false });
+      return id;
+    } catch (dbError) {
+      console.error("Storage Write Error:", dbError);
+      return null;
+    }
+  }, [userId]);
+
+  const deleteSubject = useCallback(async (subjectId: SubjectId) => {
+    if (!userId) return;
+
+    try {
+      await storage.subjects.deleteSubject(userId, subjectId);
+    } catch (dbError) {
+      console.error("Storage Write Error:", dbError);
+    }
+  }, [userId]);
+
+  return { subjects, customSubjects, getSubject, saveSubject, deleteSubject };
+};
@@ -0,0 +1,37 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { auth } from '../firebase';
+import { UsageRecord } from '../types';
+import { storage } from '../services/storage';
+import { USAGE_EVENT, getLimitWarnings, getUsageLimits, isUsageSyncEnabled, loadUsageLog } from '../services/usageService';
+
+// This device's usage log and soft limits, refreshed whenever a request is logged or a limit changes
+export const useUsage = () => {
+  const [records, setRecords] = useState<UsageRecord[]>(loadUsageLog);
+  const [limits, setLimits] = useState(getUsageLimits);
+  const [syncEnabled, setSyncEnabled] = useState(isUsageSyncEnabled);
+
+  useEffect(() => {
+    const refresh = () => {
+      setRecords(loadUsageLog());
+      setLimits(getUsageLimits());
+      setSyncEnabled(isUsageSyncEnabled());
+    };
+    window.addEventListener(USAGE_EVENT, refresh);
+    window.addEventListener('storage', refresh); // Other tabs
+    return () => {
+      window.removeEventListener(USAGE_EVENT, refresh);
+      window.removeEventListener('storage', refresh);
+    };
+  }, []);
+
+  const warnings = useMemo(() => getLimitWarnings(records, limits), [records, limits]);
+
+  // Usage synced from every device the user signed in on
+  const loadAccountUsage = useCallback(async (since: number): Promise<UsageRecord[]> => {
+    const userId = auth.currentUser?.uid;
+    if (!userId) return [];
+    return storage.usage.loadUsage(userId, since);
+  }, []);
+
+  return { records, limits, warnings, syncEnabled, loadAccountUsage };
+};
@@ -1,88 +1,136 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 
+// Dictation languages offered in Settings (BCP 47 tags understood by the Web Speech API)
+export const VOICE_LANGUAGES: { code: string; label: string }[] = [
+    { code: 'en-US', label: 'English (US)' },
+    { code: 'en-GB', label: 'English (UK)' },
+    { code: 'fr-FR', label: 'Français' },
+    { code: 'es-ES', label: 'Español (España)' },
+    { code: 'es-MX', label: 'Español (México)' },
+    { code: 'de-DE', label: 'Deutsch' },
+    { code: 'it-IT', label: 'Italiano' },
+    { code: 'pt-BR', label: 'Português (Brasil)' },
+];
+
+const ERROR_MESSAGES: Record<string, string> = {
+    'not-allowed': "Microphone access is blocked. Allow it in your browser's site settings to use voice input.",
+    'service-not-allowed': "Voice input is not allowed in this browser.",
+    'no-speech': "No speech was detected. Try again and speak a little closer to the microphone.",
+    'audio-capture': "No microphone was found.",
+    'network': "Voice input needs a network connection.",
+    'language-not-supported': "This browser cannot recognize the selected voice language.",
+};
+
+interface UseVoiceOptions {
+    lang: string;
+    // Called once for every finalized phrase
+    onFinalTranscript: (text: string) => void;
+}
+
 interface UseVoiceReturn {
+    isSupported: boolean;
     isListening: boolean;
-    transcript: string;
+    interimTranscript: string;
     startListening: () => void;
     stopListening: () => void;
-    resetTranscript: () => void;
     error: string | null;
+    clearError: () => void;
 }
 
-export const useVoice = (): UseVoiceReturn => {
+export const useVoice = ({ lang, onFinalTranscript }: UseVoiceOptions): UseVoiceReturn => {
     const [isListening, setIsListening] = useState(false);
-    const [transcript, setTranscript] = useState('');
+    const [interimTranscript, setInterimTranscript] = useState('');
     const [error, setError] = useState<string | null>(null);
 
     // Use a ref to hold the recognition instance
     const recognitionRef = useRef<any>(null);
+    const onFinalRef = useRef(onFinalTranscript);
+    onFinalRef.current = onFinalTranscript;
+
+    // Some browsers (Chrome on Android) resend earlier final results with every event;
+    // remembering which indexes were delivered keeps text from being inserted twice.
+    const deliveredRef = useRef<Set<number>>(new Set());
+
+    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    const isSupported = !!SpeechRecognition;
 
     useEffect(() => {
-        if ('webkitSpeechRecognition' in window || 'SpeechRecognition' in window) {
-            const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-            recognitionRef.current = new SpeechRecognition();
-            recognitionRef.current.continuous = true;
-            recognitionRef.current.interimResults = true;
-            recognitionRef.current.lang = 'en-US';
-
-            recognitionRef.current.onstart = () => {
-                setIsListening(true);
-                setError(null);
-            };
-
-            recognitionRef.current.onend = () => {
-                setIsListening(false);
-            };
-
-            recognitionRef.current.onerror = (event: any) => {
-                console.error("Speech recognition error", event.error);
-                setError(event.error);
-                setIsListening(false);
-            };
-
-            recognitionRef.current.onresult = (event: any) => {
-                let finalTrans = '';
-                let interimTrans = '';
-
-                for (let i = event.resultIndex; i < event.results.length; ++i) {
-                    if (event.results[i].isFinal) {
-                        finalTrans += event.results[i][0].transcript;
-                    } else {
-                        interimTrans += event.results[i][0].transcript;
+        if (!SpeechRecognition) return;
+
+        const recognition = new SpeechRecognition();
+        recognition.continuous = true;
+        recognition.interimResults = true;
+
+        recognition.onstart = () => {
+            deliveredRef.current = new Set();
+            setIsListening(true);
+            setError(null);
+        };
+
+        recognition.onend = () => {
+            setIsListening(false);
+            setInterimTranscript('');
+        };
+
+        recognition.onerror = (event: any) => {
+            console.error("Speech recognition error", event.error);
+            // 'aborted' is what stopping by hand looks like
+            if (event.error !== 'aborted') {
+                setError(ERROR_MESSAGES[event.error] || `Voice input failed (${event.error}).`);
+            }
+            setIsListening(false);
+        };
+
+        recognition.onresult = (event: any) => {
+            let interim = '';
+            for (let i = event.resultIndex; i < event.results.length; ++i) {
+                const text = event.results[i][0].transcript;
+                if (event.results[i].isFinal) {
+                    if (!deliveredRef.current.has(i) && text.trim()) {
+                        deliveredRef.current.add(i);
+                        onFinalRef.current(text.trim());
                     }
+                } else {
+                    interim += text;
                 }
+            }
+            setInterimTranscript(interim);
+        };
 
-                // We only care about the cumulative result for this simplistic implementation
-                // Actually, for a chat input, we usually want to append to existing text. 
-                // But this hook tracks *current session* transcript.
-                if (finalTrans) {
-                    setTranscript(prev => prev + finalTrans + ' ');
-                }
-            };
-        } else {
-            setError("Web Speech API not supported in this browser.");
-        }
-    }, []);
+        recognitionRef.current = recognition;
+        return () => {
+            recognition.onend = null;
+            recognition.abort();
+            recognitionRef.current = null;
+        };
+    }, [SpeechRecognition]);
+
+    // The language only matters at start, so it can change without rebuilding the recognizer
+    useEffect(() => {
+        if (recognitionRef.current) recognitionRef.current.lang = lang;
+    }, [lang, isSupported]);
 
     const startListening = useCallback(() => {
-        if (recognitionRef.current && !isListening) {
+        if (!recognitionRef.current) {
+            setError("Voice input is not supported in this browser.");
+            return;
+        }
+        if (!isListening) {
             try {
+                recognitionRef.current.lang = lang;
                 recognitionRef.current.start();
             } catch (e) {
                 console.error("Failed to start", e);
             }
         }
-    }, [isListening]);
+    }, [isListening, lang]);
 
     const stopListening = useCallback(() => {
-        if (recognitionRef.current && isListening) {
-            recognitionRef.current.stop();
-        }
-    }, [isListening]);
-
-    const resetTranscript = useCallback(() => {
-        setTranscript('');
+        // stop() (unlike abort()) still delivers the phrase that was being spoken
+        recognitionRef.current?.stop();
     }, []);
 
-    return { isListening, transcript, startListening, stopListening, resetTranscript, error };
+    const clearError = useCallback(() => setError(null), []);
+
+    return { isSupported, isListening, interimTranscript, startListening, stopListening, error, clearError };
 };
@@ -0,0 +1,100 @@
+import { Attachment, Message } from '../../types';
+import { AIProvider, ChatTurn } from './types';
+
+// Rough heuristic (~4 characters per token) that is close enough for budgeting across providers.
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const IMAGE_TOKEN_ESTIMATE = 300;
+const TURN_OVERHEAD_TOKENS = 4;
+
+// Upper bound on input context sent per request, even to providers with huge windows, to keep
+// turns fast and cheap. The reply limit comes on top. Override with VITE_AI_CONTEXT_BUDGET.
+const CONTEXT_CAP = Number(import.meta.env.VITE_AI_CONTEXT_BUDGET) || 8000;
+
+// Text attachments from earlier turns are cut down to this size when resent as history
+const HISTORY_ATTACHMENT_TOKENS = 400;
+
+export const estimateTurnTokens = (turn: ChatTurn): number =>
+    estimateTokens(turn.text) + (turn.images?.length || 0) * IMAGE_TOKEN_ESTIMATE + TURN_OVERHEAD_TOKENS;
+
+/**
+ * Keeps the beginning and end of a long text (where imports, definitions and the final
+ * answer tend to be) and replaces the middle with a marker.
+ */
+export const trimText = (text: string, maxTokens: number): string => {
+    if (estimateTokens(text) <= maxTokens) return text;
+
+    const lines = text.split('\n');
+    const maxChars = maxTokens * 4;
+    const head: string[] = [];
+    const tail: string[] = [];
+    let used = 0;
+
+    for (let i = 0, j = lines.length - 1; i <= j;) {
+        const takeHead = head.length <= tail.length * 2; // favour the head roughly 2:1
+        const line = takeHead ? lines[i] : lines[j];
+        if (used + line.length + 1 > maxChars) break;
+        used += line.length + 1;
+        if (takeHead) { head.push(line); i++; } else { tail.unshift(line); j--; }
+    }
+
+    const omitted = lines.length - head.length - tail.length;
+    if (head.length === 0 && tail.length === 0) {
+        return `${text.slice(0, maxChars)}\n[... truncated ...]`;
+    }
+    return [...head, `[... ${omitted} line${omitted === 1 ? '' : 's'} omitted ...]`, ...tail].join('\n');
+};
+
+const describeAttachment = (attachment: Attachment): string => {
+    const name = attachment.fileName ? ` ${attachment.fileName}` : '';
+    return attachment.type === 'text'
+        ? `\n[File${name}]: ${trimText(attachment.content, HISTORY_ATTACHMENT_TOKENS)}`
+        : `\n[Image${name}]`;
+};
+
+// Images are only labelled here; the caller attaches the actual pixels for recent image turns
+export const toChatTurn = (msg: Message): ChatTurn => ({
+    role: msg.role,
+    text: msg.content + (msg.attachments || []).map(describeAttachment).join('')
+});
+
+// A large reply limit (up to 8192) must not eat a small model's window: at most this share is set aside
+// for the reply, and history (and the attachments budgeted from it) always gets at least the minimum.
+const MAX_OUTPUT_SHARE = 0.25;
+const MIN_HISTORY_SHARE = 0.25;
+
+// The reply limit actually sent to the provider, so the request and the history budget agree
+export const getOutputReserve = (provider: AIProvider, maxOutputTokens = 1024): number =>
+    Math.min(maxOutputTokens, Math.floor(provider.capabilities.maxContextTokens * MAX_OUTPUT_SHARE));
+
+// Tokens left for history once the system instruction, prompt and reply are accounted for
+export const getHistoryBudget = (provider: AIProvider, systemInstruction: string, prompt: ChatTurn, maxOutputTokens = 1024): number => {
+    const window = Math.min(provider.capabilities.maxContextTokens - getOutputReserve(provider, maxOutputTokens), CONTEXT_CAP);
+    const remaining = window - estimateTokens(systemInstruction) - estimateTurnTokens(prompt);
+    return Math.max(Math.floor(window * MIN_HISTORY_SHARE), remaining);
+};
+
+// Drops the oldest turns until the rest fit
+export const fitTurns = (turns: ChatTurn[], budget: number): ChatTurn[] => {
+    let used = 0;
+    let start = turns.length;
+    while (start > 0 && used + estimateTurnTokens(turns[start - 1]) <= budget) {
+        used += estimateTurnTokens(turns[start - 1]);
+        start--;
+    }
+    return turns.slice(start);
+};
+
+/**
+ * Splits messages into the newest ones that fit the budget and the older overflow that
+ * should be folded into the rolling summary. When folding, only keep `keepRatio` of the
+ * budget so the next few turns do not immediately trigger another summary.
+ */
+export const splitForSummary = (messages: Message[], budget: number, keepRatio = 0.5): { recent: Message[]; overflow: Message[] } => {
+    const total = messages.reduce((sum, msg) => sum + estimateTurnTokens(toChatTurn(msg)), 0);
+    if (total <= budget) return { recent: messages, overflow: [] };
+
+    const recentTurns = fitTurns(messages.map(toChatTurn), budget * keepRatio);
+    const splitIndex = messages.length - recentTurns.length;
+    return { recent: messages.slice(splitIndex), overflow: messages.slice(0, splitIndex) };
+};
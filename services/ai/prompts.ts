@@ -0,0 +1,70 @@
+import { ChatSummary, PedagogyMode, SubjectDefinition, Verbosity } from '../../types';
+import { PLOT_FORMAT } from '../plotService';
+
+// Hint mode releases help in steps; the last level is the full solution
+export const MAX_HINT_LEVEL = 4;
+
+const HINT_LEVELS: Record<number, string> = {
+    1: 'a gentle nudge: point to the concept, fact or formula that applies, without applying it',
+    2: 'name the method and show how to set up the first step, without carrying it out',
+    3: 'work through the key steps, but leave the last step and the final answer to the student',
+    4: 'the full worked solution, explaining each step',
+};
+
+const getPedagogyInstruction = (mode: PedagogyMode, hintLevel: number): string => {
+    switch (mode) {
+        case PedagogyMode.SOCRATIC:
+            return ` Teach Socratically: do not give the answer or solve the problem for the student. Ask one or two short guiding questions at a time that lead them to the next step, building on their replies. If their reasoning is wrong, ask a question that exposes the mistake instead of correcting it. Confirm clearly once they reach the answer.`;
+        case PedagogyMode.HINTS: {
+            const level = Math.min(Math.max(hintLevel, 1), MAX_HINT_LEVEL);
+            return ` The student wants hints, not solutions. This is hint ${level} of ${MAX_HINT_LEVEL}, so give ${HINT_LEVELS[level]}.` +
+                (level < MAX_HINT_LEVEL ? ` Do not reveal the final answer. Give only this hint, then stop.` : '');
+        }
+        case PedagogyMode.CHECK:
+            return ` The student shares their own attempt for you to check. Go through it step by step: say which steps are right, point out the first mistake and why it is wrong, but do not redo the problem for them. If they have not shown any working, ask for it first. End with a one-line verdict: correct, partly correct or incorrect.`;
+        default:
+            return ` Provide clear, step-by-step explanations.`;
+    }
+};
+
+export const getSystemInstruction = (subject: SubjectDefinition, mode: PedagogyMode = PedagogyMode.EXPLAIN, hintLevel = 1): string => {
+    let systemInstruction = `You are an expert ${subject.name} tutor. If the user asks for a comparison or list, ALWAYS format the output as a Markdown Table.`;
+    if (subject.systemPrompt.trim()) {
+        systemInstruction += ` ${subject.systemPrompt.trim()}`;
+    }
+    if (subject.latex) {
+        systemInstruction += ` Use LaTeX for all math equations. Wrap block equations in $$ and inline in $.`;
+        systemInstruction += ` When a graph would help (functions, motion, rates of change), draw it with a fenced code block tagged plot instead of describing it, in this format:\n\`\`\`plot\n${PLOT_FORMAT}\n\`\`\`\nExpressions use x as the variable and mathjs syntax (e.g. 2*x^2, sqrt(x), exp(-x), sin(x), pi). Keep the math in LaTeX outside the block.`;
+    }
+    // Subjects without math keep the model's own default style when explaining
+    if (subject.latex || mode !== PedagogyMode.EXPLAIN) {
+        systemInstruction += getPedagogyInstruction(mode, hintLevel);
+    }
+    return systemInstruction;
+};
+
+const VERBOSITY_INSTRUCTIONS: Record<Verbosity, string> = {
+    concise: ' Keep answers short: only the essential steps and the result, no recap.',
+    balanced: '',
+    detailed: ' Be thorough: explain the reasoning behind every step, mention common mistakes and end with a short recap.',
+};
+
+export const withVerbosity = (systemInstruction: string, verbosity: Verbosity): string =>
+    systemInstruction + VERBOSITY_INSTRUCTIONS[verbosity];
+
+// Sent after an answer was cut off by the output length limit
+export const CONTINUE_PROMPT = 'Your previous answer was cut off. Continue exactly where it stopped, without repeating anything or adding a preamble.';
+
+export const withConversationSummary = (systemInstruction: string, summary?: ChatSummary): string => {
+    if (!summary?.text) return systemInstruction;
+    return `${systemInstruction}\n\nSummary of the earlier part of this conversation (older messages are not repeated below):\n${summary.text}`;
+};
+
+export const buildSummaryPrompt = (previousSummary: string | undefined, transcript: string): string =>
+    `Update the running summary of a tutoring conversation. Keep the key questions, definitions, formulas (in LaTeX), worked results and anything the student struggled with. Write at most 250 words as plain notes, no preamble.
+
+Previous summary:
+${previousSummary || '(none)'}
+
+New messages to fold in:
+${transcript}`;
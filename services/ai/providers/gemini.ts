@@ -0,0 +1,58 @@
+import { FinishReason, GoogleGenerativeAI, HarmBlockThreshold, HarmCategory, Part } from "@google/generative-ai";
+import { Role } from '../../../types';
+import { AIProvider, ChatTurn } from '../types';
+
+const safetySettings = [
+    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_ONLY_HIGH },
+];
+
+const toParts = (turn: ChatTurn): Part[] => [
+    { text: turn.text },
+    ...(turn.images || []).map(image => ({ inlineData: { data: image.data, mimeType: image.mimeType } }))
+];
+
+export const createGeminiProvider = (apiKey: string | undefined, model: string): AIProvider => ({
+    id: 'gemini',
+    label: 'Gemini',
+    model,
+    capabilities: { vision: true, streaming: true, maxContextTokens: 1000000 },
+    isConfigured: () => !!apiKey,
+    generate: async (request) => {
+        if (!apiKey) throw new Error("Gemini API Key missing");
+
+        const genAI = new GoogleGenerativeAI(apiKey);
+        const generativeModel = genAI.getGenerativeModel({
+            model: request.model || model,
+            systemInstruction: request.systemInstruction,
+            safetySettings
+        });
+
+        const chat = generativeModel.startChat({
+            history: request.history.map(turn => ({
+                role: turn.role === Role.USER ? 'user' : 'model',
+                parts: toParts(turn)
+            })),
+            generationConfig: {
+                maxOutputTokens: request.options?.maxOutputTokens ?? 1000,
+                temperature: request.options?.temperature ?? 0.7
+            }
+        });
+
+        const result = await chat.sendMessageStream(toParts(request.prompt));
+        let fullText = '';
+        for await (const chunk of result.stream) {
+            const text = chunk.text();
+            if (text) {
+                fullText += text;
+                request.onChunk?.(text);
+            }
+            if (chunk.candidates?.[0]?.finishReason === FinishReason.MAX_TOKENS) request.onTruncated?.();
+        }
+        const { usageMetadata } = await result.response;
+        if (usageMetadata) request.onUsage?.({ promptTokens: usageMetadata.promptTokenCount, completionTokens: usageMetadata.candidatesTokenCount });
+        return fullText;
+    }
+});
@@ -0,0 +1,40 @@
+import Groq from "groq-sdk";
+import { AIProvider } from '../types';
+import { toOpenAIMessages } from './openaiCompatible';
+
+export const createGroqProvider = (apiKey: string | undefined, model: string): AIProvider => ({
+    id: 'groq',
+    label: 'Groq',
+    model,
+    capabilities: { vision: false, streaming: true, maxContextTokens: 128000 },
+    isConfigured: () => !!apiKey,
+    generate: async (request) => {
+        if (!apiKey) throw new Error("Groq API Key missing");
+
+        // Retries are left to services/ai/resilience.ts so backoff and fallback follow one policy
+        const groq = new Groq({ apiKey, dangerouslyAllowBrowser: true, maxRetries: 0 });
+        const stream = await groq.chat.completions.create({
+            messages: toOpenAIMessages(request),
+            model: request.model || model,
+            temperature: request.options?.temperature ?? 0.7,
+            max_tokens: request.options?.maxOutputTokens ?? 1024,
+            stream: true,
+        });
+
+        let fullText = '';
+        for await (const chunk of stream) {
+            const text = chunk.choices[0]?.delta?.content || '';
+            if (text) {
+                fullText += text;
+                request.onChunk?.(text);
+            }
+            if (chunk.choices[0]?.finish_reason === 'length') request.onTruncated?.();
+            // Sent with the final chunk
+            const usage = chunk.x_groq?.usage;
+            if (usage) request.onUsage?.({ promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens });
+        }
+        if (!fullText) throw new Error("Empty response from Groq");
+
+        return fullText;
+    }
+});
@@ -0,0 +1,123 @@
+import { Role } from '../../../types';
+import { AIProvider, ChatTurn, GenerateRequest, ProviderCapabilities, TokenUsage } from '../types';
+
+export interface OpenAICompatibleConfig {
+    id: string;
+    label: string;
+    baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama
+    model: string;
+    apiKey?: string;
+    capabilities: ProviderCapabilities;
+}
+
+// Shared with the Groq provider, which speaks the same chat completions format.
+export const toOpenAIMessages = (request: GenerateRequest): any[] => {
+    const toMessage = (turn: ChatTurn) => {
+        const role = turn.role === Role.USER ? 'user' : 'assistant';
+        if (!turn.images?.length) return { role, content: turn.text };
+        return {
+            role,
+            content: [
+                { type: 'text', text: turn.text },
+                ...turn.images.map(image => ({
+                    type: 'image_url',
+                    image_url: { url: `data:${image.mimeType};base64,${image.data}` }
+                }))
+            ]
+        };
+    };
+
+    return [
+        { role: 'system', content: request.systemInstruction },
+        ...request.history.map(toMessage),
+        toMessage(request.prompt)
+    ];
+};
+
+const toTokenUsage = (usage: any): TokenUsage | null =>
+    usage && typeof usage.prompt_tokens === 'number'
+        ? { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens || 0 }
+        : null;
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => ({
+    id: config.id,
+    label: config.label,
+    model: config.model,
+    capabilities: config.capabilities,
+    isConfigured: () => !!config.baseUrl && !!config.model,
+    generate: async (request) => {
+        const streaming = config.capabilities.streaming;
+        const response = await fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {})
+            },
+            body: JSON.stringify({
+                model: request.model || config.model,
+                messages: toOpenAIMessages(request),
+                temperature: request.options?.temperature ?? 0.7,
+                max_tokens: request.options?.maxOutputTokens ?? 1024,
+                stream: streaming,
+                // Servers that support it send token counts in a final chunk
+                ...(streaming ? { stream_options: { include_usage: true } } : {})
+            })
+        });
+
+        if (!response.ok) {
+            const error: any = new Error(`${config.label} request failed (${response.status}): ${await response.text()}`);
+            error.status = response.status;
+            error.retryAfter = response.headers.get('retry-after') ?? undefined;
+            throw error;
+        }
+
+        if (!streaming || !response.body) {
+            const data = await response.json();
+            const text = data.choices?.[0]?.message?.content || '';
+            request.onChunk?.(text);
+            if (data.choices?.[0]?.finish_reason === 'length') request.onTruncated?.();
+            const usage = toTokenUsage(data.usage);
+            if (usage) request.onUsage?.(usage);
+            return text;
+        }
+
+        // Server-sent events: "data: {...}" lines terminated by "data: [DONE]"
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let fullText = '';
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+
+            for (const line of lines) {
+                const trimmed = line.trim();
+                if (!trimmed.startsWith('data:')) continue;
+                const payload = trimmed.slice(5).trim();
+                if (payload === '[DONE]') continue;
+
+                try {
+                    const data = JSON.parse(payload);
+                    const usage = toTokenUsage(data.usage);
+                    if (usage) request.onUsage?.(usage);
+                    const choice = data.choices?.[0];
+                    const chunk = choice?.delta?.content || '';
+                    if (chunk) {
+                        fullText += chunk;
+                        request.onChunk?.(chunk);
+                    }
+                    if (choice?.finish_reason === 'length') request.onTruncated?.();
+                } catch (parseError) {
+                    console.warn(`Skipping malformed stream line from ${config.label}`, parseError);
+                }
+            }
+        }
+
+        return fullText;
+    }
+});
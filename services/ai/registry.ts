@@ -0,0 +1,62 @@
+import { AIProvider, RouteRequirements } from './types';
+import { createGroqProvider } from './providers/groq';
+import { createGeminiProvider } from './providers/gemini';
+import { createOpenAICompatibleProvider } from './providers/openaiCompatible';
+
+const env = import.meta.env;
+
+const providers = new Map<string, AIProvider>();
+
+export const registerProvider = (provider: AIProvider) => {
+    providers.set(provider.id, provider);
+};
+
+export const getProvider = (id: string): AIProvider | undefined => providers.get(id);
+
+export const listProviders = (): AIProvider[] => Array.from(providers.values());
+
+// --- ROUTING CONFIG ---
+// VITE_AI_PROVIDERS is the ordered fallback chain, e.g. "groq,gemini" or "local" for fully offline use.
+// Each request walks the chain and skips providers that are unconfigured or lack a required capability.
+const DEFAULT_CHAIN = ['groq', 'gemini', 'local'];
+
+let routingChain: string[] = env.VITE_AI_PROVIDERS
+    ? String(env.VITE_AI_PROVIDERS).split(',').map(id => id.trim()).filter(Boolean)
+    : DEFAULT_CHAIN;
+
+export const getRoutingChain = (): string[] => [...routingChain];
+
+export const setRoutingChain = (chain: string[]) => {
+    routingChain = [...chain];
+};
+
+export const resolveProviderChain = (requirements: RouteRequirements = {}): AIProvider[] => {
+    const { preferredProvider } = requirements;
+    const order = preferredProvider && providers.has(preferredProvider)
+        ? [preferredProvider, ...routingChain.filter(id => id !== preferredProvider)]
+        : routingChain;
+    return order
+        .map(id => providers.get(id))
+        .filter((provider): provider is AIProvider => !!provider && provider.isConfigured())
+        .filter(provider => !requirements.vision || provider.capabilities.vision);
+};
+
+// --- BUILT-IN PROVIDERS ---
+registerProvider(createGroqProvider(env.VITE_GROQ_API_KEY, env.VITE_GROQ_MODEL || 'llama-3.3-70b-versatile'));
+registerProvider(createGeminiProvider(env.VITE_GEMINI_API_KEY, env.VITE_GEMINI_MODEL || 'gemini-1.5-flash'));
+
+// Any OpenAI-compatible server (Ollama, llama.cpp, LM Studio, vLLM...)
+if (env.VITE_OPENAI_COMPAT_BASE_URL) {
+    registerProvider(createOpenAICompatibleProvider({
+        id: 'local',
+        label: env.VITE_OPENAI_COMPAT_LABEL || 'Local Model',
+        baseUrl: env.VITE_OPENAI_COMPAT_BASE_URL,
+        model: env.VITE_OPENAI_COMPAT_MODEL || 'llama3.2',
+        apiKey: env.VITE_OPENAI_COMPAT_API_KEY,
+        capabilities: {
+            vision: env.VITE_OPENAI_COMPAT_VISION === 'true',
+            streaming: env.VITE_OPENAI_COMPAT_STREAMING !== 'false',
+            maxContextTokens: Number(env.VITE_OPENAI_COMPAT_MAX_CONTEXT) || 8192
+        }
+    }));
+}
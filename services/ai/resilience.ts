@@ -0,0 +1,235 @@
+import { ProviderErrorKind } from '../../types';
+import { AIProvider } from './types';
+
+// --- ERROR TAXONOMY ---
+// Every SDK reports failures differently (status fields, headers, error details, message text).
+// Provider errors are normalized into one of a few kinds, which decide whether to retry,
+// fall back to the next provider, or give up.
+
+export class ProviderError extends Error {
+    kind: ProviderErrorKind;
+    providerId: string;
+    status?: number;
+    retryAfterMs?: number; // From Retry-After or the provider's retry hint
+    cause?: unknown;
+
+    constructor(kind: ProviderErrorKind, providerId: string, message: string, details: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+        super(message);
+        this.name = 'ProviderError';
+        this.kind = kind;
+        this.providerId = providerId;
+        this.status = details.status;
+        this.retryAfterMs = details.retryAfterMs;
+        this.cause = details.cause;
+    }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (value: unknown): number | undefined => {
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(String(value));
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const readHeader = (headers: any, name: string): string | undefined => {
+    if (!headers) return undefined;
+    if (typeof headers.get === 'function') return headers.get(name) ?? undefined;
+    return headers[name] ?? undefined;
+};
+
+const findRetryAfter = (error: any): number | undefined => {
+    const fromHeader = readHeader(error?.headers, 'retry-after-ms');
+    if (fromHeader !== undefined && Number.isFinite(Number(fromHeader))) return Number(fromHeader);
+    const retryAfter = error?.retryAfter ?? readHeader(error?.headers, 'retry-after');
+    if (retryAfter !== undefined) return parseRetryAfter(retryAfter);
+    // Gemini sends a google.rpc.RetryInfo detail such as { retryDelay: "31s" }
+    const retryInfo = error?.errorDetails?.find?.((detail: any) => String(detail?.['@type']).endsWith('RetryInfo'));
+    const delay = /^([\d.]+)s$/.exec(String(retryInfo?.retryDelay ?? ''));
+    return delay ? Number(delay[1]) * 1000 : undefined;
+};
+
+const classify = (status: number | undefined, error: any): ProviderErrorKind => {
+    const message = String(error?.message || '');
+    if (status === 429 || /\b429\b|rate limit|quota|RESOURCE_EXHAUSTED/i.test(message)) return 'rate_limit';
+    if (status === 401 || status === 403 || /api key|unauthori[sz]ed|permission denied/i.test(message)) return 'auth';
+    if (/blocked due to|SAFETY|content[_ ]filter|content policy/i.test(message)) return 'content_blocked';
+    if ((status !== undefined && status >= 500) || /overloaded|unavailable|internal error/i.test(message)) return 'server';
+    if (status !== undefined && status >= 400) return 'bad_request';
+    // fetch() rejects with a TypeError; any other TypeError is a bug in the adapter and shouldn't be retried
+    if (error instanceof TypeError
+        ? /failed to fetch|fetch failed|NetworkError|load failed/i.test(message)
+        : error?.name === 'APIConnectionError' || error?.name === 'APIConnectionTimeoutError' || /failed to fetch|network|connection error|timed? ?out|ECONN/i.test(message)) return 'network';
+    if (/^Empty response/.test(message)) return 'empty';
+    return 'other';
+};
+
+// Normalizes anything a provider throws; ProviderErrors pass through unchanged
+export const toProviderError = (error: unknown, provider: AIProvider): ProviderError => {
+    if (error instanceof ProviderError) return error;
+    const source: any = error;
+    // Gemini's fetch errors carry the status in the message: "... [503 Service Unavailable] ..."
+    const status: number | undefined = source?.status ?? source?.response?.status ?? (Number(/\[(\d{3}) [^\]]*\]/.exec(String(source?.message))?.[1]) || undefined);
+    return new ProviderError(classify(status, source), provider.id, source?.message || `${provider.label} request failed`, {
+        status,
+        retryAfterMs: findRetryAfter(source),
+        cause: error,
+    });
+};
+
+// --- RETRY POLICY ---
+
+const MAX_ATTEMPTS = 3; // Per provider, per request
+const BASE_DELAY_MS = 1000;
+const MAX_BACKOFF_MS = 8000;
+// A longer Retry-After is not worth waiting for when another provider can answer
+const MAX_RETRY_WAIT_MS = 20000;
+
+const RETRYABLE = new Set<ProviderErrorKind>(['rate_limit', 'server', 'network']);
+
+// Exponential backoff with jitter (between half and all of the step), unless the provider said how long to wait.
+// Null means stop retrying this provider.
+export const getRetryDelay = (error: ProviderError, attempt: number): number | null => {
+    if (!RETRYABLE.has(error.kind) || attempt + 1 >= MAX_ATTEMPTS) return null;
+    if (error.retryAfterMs !== undefined) return error.retryAfterMs <= MAX_RETRY_WAIT_MS ? error.retryAfterMs : null;
+    const step = Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * 2 ** attempt);
+    return Math.round(step / 2 + Math.random() * step / 2);
+};
+
+// --- CIRCUIT BREAKER ---
+// A provider that keeps failing is skipped for a cooldown instead of being retried on every request.
+// Once the cooldown ends the next request tries it again; one more failure reopens the circuit.
+
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 30000;
+const AUTH_COOLDOWN_MS = 5 * 60 * 1000; // A rejected key won't fix itself
+
+interface CircuitState {
+    failures: number; // Consecutive
+    openUntil: number;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+export const isCircuitOpen = (providerId: string, now = Date.now()) => (circuits.get(providerId)?.openUntil ?? 0) > now;
+
+export const recordProviderSuccess = (providerId: string) => {
+    circuits.delete(providerId);
+};
+
+export const recordProviderFailure = (error: ProviderError, now = Date.now()) => {
+    // Blocked or malformed requests say nothing about the provider's health
+    if (error.kind === 'content_blocked' || error.kind === 'bad_request') return;
+
+    const state = circuits.get(error.providerId) || { failures: 0, openUntil: 0 };
+    state.failures++;
+    if (error.kind === 'auth') {
+        state.openUntil = now + AUTH_COOLDOWN_MS;
+    } else if (error.retryAfterMs !== undefined && error.retryAfterMs > MAX_RETRY_WAIT_MS) {
+        state.openUntil = now + error.retryAfterMs;
+    } else if (state.failures >= FAILURE_THRESHOLD) {
+        state.openUntil = now + COOLDOWN_MS;
+    }
+    circuits.set(error.providerId, state);
+};
+
+// --- STATUS MESSAGES ---
+
+const seconds = (ms: number) => `${Math.max(1, Math.round(ms / 1000))}s`;
+
+const RETRY_REASONS: Partial<Record<ProviderErrorKind, string>> = {
+    rate_limit: 'is rate limiting requests',
+    server: 'is having server problems',
+    network: "couldn't be reached",
+};
+
+const FALLBACK_REASONS: Record<ProviderErrorKind, string> = {
+    rate_limit: 'is rate limited',
+    auth: 'rejected its API key',
+    network: "couldn't be reached",
+    content_blocked: 'blocked the request',
+    server: 'is having server problems',
+    bad_request: "couldn't handle this request",
+    empty: 'returned an empty answer',
+    other: 'failed',
+};
+
+export const describeRetry = (provider: AIProvider, error: ProviderError, delayMs: number) =>
+    `${provider.label} ${RETRY_REASONS[error.kind] || 'failed'}. Retrying in ${seconds(delayMs)}...`;
+
+export const describeFallback = (from: AIProvider, error: ProviderError | null, to: AIProvider) =>
+    error
+        ? `${from.label} ${FALLBACK_REASONS[error.kind]}. Switching to ${to.label}...`
+        : `${from.label} is unavailable for now. Using ${to.label}...`;
+
+// Shown in place of an answer when every provider failed
+export const describeFailure = (error: unknown): string => {
+    switch (error instanceof ProviderError ? error.kind : 'other') {
+        case 'rate_limit': return "The AI providers are rate limiting requests right now. Please wait a minute and try again.";
+        case 'auth': return "The AI provider rejected its API key. Check the API key settings in your environment.";
+        case 'network': return "Couldn't reach the AI service. Check your internet connection and try again.";
+        case 'content_blocked': return "The AI provider's safety filters blocked this answer. Try rephrasing your question.";
+        case 'server': return "The AI service is having problems right now. Please try again in a few minutes.";
+        default: return "Sorry, I'm having trouble connecting to the AI tutor right now. Please try again later.";
+    }
+};
+
+// --- RUNNING A REQUEST ---
+
+export interface ResilienceCallbacks {
+    onStatus: (status: string | null) => void;
+    // Before any new attempt, e.g. to discard a partly streamed answer
+    onRestart?: () => void;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs `run` against each provider in the chain: retryable failures are retried with backoff,
+ * others move on to the next provider, and blocked content ends the request. Providers with an
+ * open circuit are skipped unless every provider's is open, in which case the first one is tried anyway.
+ * `fallbackReason` is why the previous provider was given up on.
+ */
+export const runWithResilience = async <T>(
+    chain: AIProvider[],
+    run: (provider: AIProvider, context: { fallbackReason?: ProviderErrorKind }) => Promise<T>,
+    callbacks: ResilienceCallbacks
+): Promise<T> => {
+    const closed = chain.filter(provider => !isCircuitOpen(provider.id));
+    const usable = closed.length > 0 ? closed : chain.slice(0, 1);
+    if (usable[0] && usable[0] !== chain[0]) {
+        console.warn(`Skipping ${chain[0].label}: circuit open`);
+        callbacks.onStatus(describeFallback(chain[0], null, usable[0]));
+    }
+
+    let lastError: ProviderError | null = null;
+    for (const [index, provider] of usable.entries()) {
+        if (index > 0) {
+            console.warn(`Switching to fallback provider ${provider.label}...`, lastError);
+            callbacks.onStatus(describeFallback(usable[index - 1], lastError, provider));
+            callbacks.onRestart?.();
+        }
+
+        for (let attempt = 0; ; attempt++) {
+            try {
+                const result = await run(provider, { fallbackReason: index > 0 ? lastError?.kind : undefined });
+                recordProviderSuccess(provider.id);
+                return result;
+            } catch (rawError) {
+                const error = toProviderError(rawError, provider);
+                lastError = error;
+                recordProviderFailure(error);
+                // Another provider shouldn't be used to get around a safety filter
+                if (error.kind === 'content_blocked') throw error;
+
+                const delay = isCircuitOpen(provider.id) ? null : getRetryDelay(error, attempt);
+                if (delay === null) break;
+                callbacks.onRestart?.();
+                callbacks.onStatus(describeRetry(provider, error, delay));
+                await sleep(delay);
+            }
+        }
+    }
+    throw lastError || new Error("No AI provider is configured.");
+};
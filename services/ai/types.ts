@@ -0,0 +1,58 @@
+import { Role } from '../../types';
+
+export interface ProviderCapabilities {
+    vision: boolean;
+    streaming: boolean;
+    maxContextTokens: number;
+}
+
+export interface ImagePart {
+    data: string; // Base64 without the data: prefix
+    mimeType: string;
+}
+
+// Provider-neutral conversation turn. Each provider converts these into its own wire format.
+export interface ChatTurn {
+    role: Role;
+    text: string;
+    images?: ImagePart[];
+}
+
+export interface GenerationOptions {
+    temperature?: number;
+    maxOutputTokens?: number;
+}
+
+// Token counts as reported by the provider
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface GenerateRequest {
+    systemInstruction: string;
+    history: ChatTurn[];
+    prompt: ChatTurn;
+    model?: string; // Overrides the provider's configured model
+    options?: GenerationOptions;
+    onChunk?: (chunk: string) => void;
+    // Called when the response stopped because it reached maxOutputTokens
+    onTruncated?: () => void;
+    // Called once the provider reports token counts, if it does
+    onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface AIProvider {
+    id: string;
+    label: string;
+    model: string;
+    capabilities: ProviderCapabilities;
+    isConfigured: () => boolean;
+    // Resolves with the full response text. Streaming providers also report chunks through onChunk.
+    generate: (request: GenerateRequest) => Promise<string>;
+}
+
+export interface RouteRequirements {
+    vision?: boolean;
+    preferredProvider?: string; // Moved to the front of the chain when usable
+}
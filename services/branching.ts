@@ -0,0 +1,63 @@
+import { Message } from '../types';
+
+// Edits and regenerations are stored as siblings: messages sharing a parent. The chat keeps
+// which child is selected under each parent (ChatSession.activeBranches); without a selection
+// the newest child is shown.
+export const ROOT_BRANCH = 'root';
+
+export type BranchSelections = Record<string, string>;
+
+export interface BranchInfo {
+  parentKey: string;
+  siblingIds: string[];
+  index: number;
+}
+
+export interface ThreadView {
+  path: Message[]; // The messages on the selected branch, oldest first
+  branches: Map<string, BranchInfo>; // For messages on the path that have alternatives
+}
+
+// Messages written before branching existed have no parentId and simply follow the one before them
+const indexChildren = (messages: Message[]) => {
+  const children = new Map<string, Message[]>();
+  const parentOf = new Map<string, string>();
+  messages.forEach((message, index) => {
+    const parentKey = message.parentId !== undefined
+      ? message.parentId || ROOT_BRANCH
+      : index > 0 ? messages[index - 1].id : ROOT_BRANCH;
+    parentOf.set(message.id, parentKey);
+    if (!children.has(parentKey)) children.set(parentKey, []);
+    children.get(parentKey)!.push(message);
+  });
+  return { children, parentOf };
+};
+
+export const buildThread = (messages: Message[], selections: BranchSelections = {}): ThreadView => {
+  const { children } = indexChildren(messages);
+  const path: Message[] = [];
+  const branches = new Map<string, BranchInfo>();
+
+  for (let parentKey = ROOT_BRANCH; children.has(parentKey);) {
+    const options = children.get(parentKey)!;
+    const selected = options.find(message => message.id === selections[parentKey]) || options[options.length - 1];
+    if (options.length > 1) {
+      branches.set(selected.id, { parentKey, siblingIds: options.map(message => message.id), index: options.indexOf(selected) });
+    }
+    path.push(selected);
+    parentKey = selected.id;
+  }
+
+  return { path, branches };
+};
+
+// Selections that put the given message on the visible path (e.g. when jumping to a search result)
+export const selectionsToReveal = (messages: Message[], selections: BranchSelections, messageId: string): BranchSelections => {
+  const { parentOf } = indexChildren(messages);
+  const next = { ...selections };
+  for (let id: string | undefined = messageId; id && id !== ROOT_BRANCH; id = parentOf.get(id)) {
+    const parentKey = parentOf.get(id);
+    if (parentKey) next[parentKey] = id;
+  }
+  return next;
+};
@@ -0,0 +1,76 @@
+import { getDb, collection, doc, getDocs, query, orderBy, writeBatch, serverTimestamp } from '../firebase';
+import { Role, Subject } from '../types';
+
+// Firestore caps a batch at 500 writes; stay well below it.
+const BATCH_SIZE = 400;
+
+const migratedUsers = new Set<string>();
+const runningMigrations = new Map<string, Promise<void>>();
+
+/**
+ * Before threads existed every subject had exactly one conversation stored at
+ * users/{uid}/chats/{subject}/messages. This moves each of those into a chat
+ * document with id `legacy-{subject}`, then removes the legacy document.
+ * The fixed id makes the move safe to repeat: a second run (another tab, or a retry
+ * after the deletes failed) overwrites the same thread instead of creating a duplicate.
+ */
+export const migrateLegacyChats = (userId: string): Promise<void> => {
+  if (migratedUsers.has(userId)) return Promise.resolve();
+  if (!runningMigrations.has(userId)) {
+    runningMigrations.set(userId, moveLegacyChats(userId)
+      .then(() => { migratedUsers.add(userId); })
+      .finally(() => runningMigrations.delete(userId)));
+  }
+  return runningMigrations.get(userId)!;
+};
+
+const moveLegacyChats = async (userId: string) => {
+  const db = getDb();
+  const legacyIds = new Set<string>(Object.values(Subject));
+  const chatsSnapshot = await getDocs(collection(db, `users/${userId}/chats`));
+  const legacyChats = chatsSnapshot.docs.filter(d => legacyIds.has(d.id));
+
+  for (const legacyChat of legacyChats) {
+    const subject = legacyChat.id as Subject;
+    const messagesSnapshot = await getDocs(query(collection(db, `users/${userId}/chats/${subject}/messages`), orderBy('timestamp', 'asc')));
+
+    const newChatRef = doc(db, `users/${userId}/chats/legacy-${subject}`);
+    const firstUserMessage = messagesSnapshot.docs.find(d => d.data().role === Role.USER);
+    const lastMessage = messagesSnapshot.docs[messagesSnapshot.docs.length - 1];
+
+    let batch = writeBatch(db);
+    let pending = 0;
+    const commitIfFull = async () => {
+      if (++pending >= BATCH_SIZE) {
+        await batch.commit();
+        batch = writeBatch(db);
+        pending = 0;
+      }
+    };
+
+    // Copy messages first (keeping their ids) so a failure part-way never loses history
+    for (const message of messagesSnapshot.docs) {
+      batch.set(doc(db, `users/${userId}/chats/${newChatRef.id}/messages/${message.id}`), message.data());
+      await commitIfFull();
+    }
+
+    batch.set(newChatRef, {
+      subject,
+      title: firstUserMessage ? String(firstUserMessage.data().content).slice(0, 60) : subject,
+      userId,
+      createdAt: messagesSnapshot.docs[0]?.data().timestamp || serverTimestamp(),
+      updatedAt: lastMessage?.data().timestamp || serverTimestamp(),
+    });
+    await batch.commit();
+
+    // Then remove the legacy subject-keyed thread
+    batch = writeBatch(db);
+    pending = 0;
+    for (const message of messagesSnapshot.docs) {
+      batch.delete(message.ref);
+      await commitIfFull();
+    }
+    batch.delete(legacyChat.ref);
+    await batch.commit();
+  }
+};
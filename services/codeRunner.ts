@@ -0,0 +1,168 @@
+// Runs code snippets from tutor answers off the main thread, in sandboxed frames (see codeSandbox.ts)
+// with no network or access to the app's data. JavaScript/TypeScript get a fresh sandbox per run;
+// Python shares one so the WASM runtime only loads once.
+import { createSandboxRunner } from './codeSandbox';
+
+export type RunnableLanguage = 'javascript' | 'typescript' | 'python';
+
+export interface CodeRunResult {
+  stdout: string;
+  stderr: string;
+  result?: string; // Value of the last expression, if any
+  error?: string;
+  timedOut?: boolean;
+  durationMs: number;
+}
+
+export interface CodeRunRequest {
+  id: number;
+  language: RunnableLanguage;
+  code: string;
+}
+
+// Worker -> page. 'started' arrives once the runtime is loaded, which is when the timeout begins.
+export type CodeRunResponse =
+  | { id: number; type: 'started' }
+  | { id: number; type: 'done'; result: Omit<CodeRunResult, 'durationMs' | 'timedOut'> };
+
+export const RUN_TIMEOUT_MS = 5000;
+// Until 'started'; loading the Python runtime can take a while on a slow connection
+const START_TIMEOUT_MS: Record<RunnableLanguage, number> = { javascript: 10000, typescript: 10000, python: 60000 };
+export const MAX_OUTPUT_LENGTH = 20000;
+
+const LANGUAGE_ALIASES: Record<string, RunnableLanguage> = {
+  js: 'javascript', javascript: 'javascript', mjs: 'javascript',
+  ts: 'typescript', typescript: 'typescript',
+  py: 'python', python: 'python', python3: 'python',
+};
+
+export const LANGUAGE_LABELS: Record<RunnableLanguage, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  python: 'Python',
+};
+
+// Maps a fenced block's language tag to a runnable language, or null if we can't run it
+export const getRunnableLanguage = (tag: string | undefined): RunnableLanguage | null =>
+  (tag && LANGUAGE_ALIASES[tag.toLowerCase()]) || null;
+
+// What connectSandbox needs from a sandbox; the same shape as a Worker
+export interface CodeRunnerPort {
+  postMessage: (request: CodeRunRequest) => void;
+  terminate: () => void;
+  onmessage: ((event: MessageEvent<CodeRunResponse>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+interface PendingRun {
+  resolve: (result: CodeRunResult) => void;
+  startedAt?: number;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+let nextRunId = 1;
+let runPython: ((request: CodeRunRequest) => Promise<CodeRunResult>) | null = null;
+
+const finish = (pending: PendingRun, result: Omit<CodeRunResult, 'durationMs'>) => {
+  clearTimeout(pending.timer);
+  pending.resolve({ ...result, durationMs: pending.startedAt ? Math.round(performance.now() - pending.startedAt) : 0 });
+};
+
+/**
+ * Wires a sandbox to its pending runs and returns a function that starts one. A run that doesn't
+ * start within START_TIMEOUT_MS, or doesn't finish within RUN_TIMEOUT_MS of starting, kills the
+ * sandbox, and every run on it ends, so a stuck sandbox never leaves a run waiting forever.
+ */
+const connectSandbox = (sandbox: CodeRunnerPort, onTerminate: () => void) => {
+  const runs = new Map<number, PendingRun>();
+
+  const terminate = (error: string, failed?: { id: number; error: string; timedOut?: boolean }) => {
+    sandbox.terminate();
+    onTerminate();
+    runs.forEach((pending, id) => finish(pending, {
+      stdout: '',
+      stderr: '',
+      error: id === failed?.id ? failed.error : error,
+      timedOut: id === failed?.id && failed.timedOut,
+    }));
+    runs.clear();
+  };
+
+  sandbox.onmessage = (event: MessageEvent<CodeRunResponse>) => {
+    const response = event.data;
+    const pending = runs.get(response.id);
+    if (!pending) return;
+
+    if (response.type === 'started') {
+      clearTimeout(pending.timer);
+      pending.startedAt = performance.now();
+      pending.timer = setTimeout(() => terminate('Cancelled because an earlier run timed out.', {
+        id: response.id,
+        error: `Stopped after ${RUN_TIMEOUT_MS / 1000} seconds. Is there an infinite loop?`,
+        timedOut: true,
+      }), RUN_TIMEOUT_MS);
+      return;
+    }
+    runs.delete(response.id);
+    finish(pending, response.result);
+  };
+
+  sandbox.onerror = (event) => {
+    console.error("Code runner sandbox failed", event);
+    event.preventDefault();
+    terminate(event.message || 'The code runner failed to start.');
+  };
+
+  return (request: CodeRunRequest) => new Promise<CodeRunResult>(resolve => {
+    const startTimeout = START_TIMEOUT_MS[request.language];
+    runs.set(request.id, {
+      resolve,
+      timer: setTimeout(() => terminate('Cancelled because the code runner stopped responding.', {
+        id: request.id,
+        error: `The ${LANGUAGE_LABELS[request.language]} runner didn't start within ${startTimeout / 1000} seconds.`,
+      }), startTimeout),
+    });
+    sandbox.postMessage(request);
+  });
+};
+
+const getPythonRunner = () => {
+  if (!runPython) {
+    runPython = connectSandbox(createSandboxRunner(), () => { runPython = null; });
+  }
+  return runPython;
+};
+
+export const runCode = async (language: RunnableLanguage, code: string): Promise<CodeRunResult> => {
+  const id = nextRunId++;
+
+  if (language === 'python') return getPythonRunner()({ id, language, code });
+
+  // TypeScript is stripped to JavaScript here, since the sandbox can't load anything
+  let source = code;
+  if (language === 'typescript') {
+    try {
+      const { transform } = await import('sucrase');
+      source = transform(code, { transforms: ['typescript'] }).code;
+    } catch (err) {
+      return { stdout: '', stderr: '', error: err instanceof Error ? err.message : String(err), durationMs: 0 };
+    }
+  }
+
+  // One-shot: nothing a snippet leaves behind survives into the next run
+  const sandbox = createSandboxRunner();
+  const result = await connectSandbox(sandbox, () => {})({ id, language, code: source });
+  sandbox.terminate();
+  return result;
+};
+
+// Text attachment so the student can ask the tutor about a run
+export const formatRunForChat = (language: RunnableLanguage, code: string, result: CodeRunResult): string => {
+  const sections = [`${LANGUAGE_LABELS[language]} code:\n\`\`\`${language}\n${code}\n\`\`\``];
+  if (result.stdout) sections.push(`Output:\n\`\`\`\n${result.stdout}\n\`\`\``);
+  if (result.stderr) sections.push(`Errors/warnings:\n\`\`\`\n${result.stderr}\n\`\`\``);
+  if (result.result !== undefined) sections.push(`Return value: ${result.result}`);
+  if (result.error) sections.push(`${result.timedOut ? 'Timed out' : 'Exception'}:\n\`\`\`\n${result.error}\n\`\`\``);
+  if (!result.stdout && !result.stderr && result.result === undefined && !result.error) sections.push('The code ran without output.');
+  return sections.join('\n\n');
+};
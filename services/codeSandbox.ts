@@ -0,0 +1,217 @@
+// Isolation for code snippets. Each sandbox is a hidden <iframe sandbox="allow-scripts">, which has
+// an opaque origin: no cookies, IndexedDB or localStorage of the app, and no way to reach the page.
+// Its CSP blocks network access except for reading the Python runtime's files. The code itself runs
+// in a worker started from inside the frame, so an infinite loop can be stopped by removing the frame.
+import type { PyodideAPI } from 'pyodide';
+import type { CodeRunRequest, CodeRunResponse, CodeRunnerPort } from './codeRunner';
+import { MAX_OUTPUT_LENGTH } from './codeRunner';
+
+// Frame -> page, besides the worker's own responses
+type SandboxMessage = CodeRunResponse | { type: 'ready' } | { type: 'error'; message?: string };
+
+// The Pyodide files the app serves at /pyodide/ (see vite.config.ts), unless VITE_PYODIDE_URL points elsewhere.
+// The sandbox's origin is opaque, so wherever they come from must send Access-Control-Allow-Origin.
+const getPyodideUrl = () => {
+  const url = new URL(import.meta.env.VITE_PYODIDE_URL || `${import.meta.env.BASE_URL}pyodide/`, location.href).href;
+  return url.endsWith('/') ? url : `${url}/`;
+};
+
+const buildCsp = (pyodideUrl: string) =>
+  `default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval' 'wasm-unsafe-eval' ${pyodideUrl}; connect-src ${pyodideUrl}; worker-src blob:`;
+
+// Runs inside the sandbox's worker. It is serialized with toString(), so it can't use anything from this module.
+const sandboxWorkerMain = (maxOutputLength: number, pyodideUrl: string) => {
+  const post = (response: CodeRunResponse) => self.postMessage(response);
+
+  const createOutput = () => {
+    let text = '';
+    return {
+      write: (chunk: string) => {
+        if (text.length < maxOutputLength) text += chunk;
+      },
+      read: () => text.length > maxOutputLength ? `${text.slice(0, maxOutputLength)}\n... (output truncated)` : text,
+    };
+  };
+
+  // --- JAVASCRIPT ---
+
+  const formatValue = (value: unknown, nested = false): string => {
+    if (typeof value === 'string') return nested ? JSON.stringify(value) : value;
+    if (typeof value === 'function') return `[Function ${value.name || 'anonymous'}]`;
+    if (value instanceof Error) return value.stack || `${value.name}: ${value.message}`;
+    if (value === undefined || typeof value === 'bigint' || typeof value === 'symbol') return String(value);
+    if (value instanceof Map) return `Map(${value.size}) ${formatValue(Object.fromEntries(value), true)}`;
+    if (value instanceof Set) return `Set(${value.size}) ${formatValue([...value], true)}`;
+    try {
+      return JSON.stringify(value, null, 2) ?? String(value);
+    } catch {
+      return String(value); // Circular structures
+    }
+  };
+
+  const runJavaScript = async (code: string) => {
+    const stdout = createOutput();
+    const stderr = createOutput();
+    const print = (output: ReturnType<typeof createOutput>) => (...args: unknown[]) =>
+      output.write(args.map(arg => formatValue(arg)).join(' ') + '\n');
+    Object.assign(console, { log: print(stdout), info: print(stdout), debug: print(stdout), table: print(stdout), warn: print(stderr), error: print(stderr) });
+
+    try {
+      // Indirect eval runs in global scope and hands back the completion value of the last statement
+      let value = (0, eval)(code);
+      if (value instanceof Promise) value = await value;
+      return { stdout: stdout.read(), stderr: stderr.read(), result: value === undefined ? undefined : formatValue(value, true) };
+    } catch (err) {
+      return { stdout: stdout.read(), stderr: stderr.read(), error: formatValue(err) };
+    }
+  };
+
+  // --- PYTHON ---
+
+  // Built with Function because bundlers rewrite import() calls, which would break this function once serialized
+  const importModule = new Function('url', 'return import(url)') as (url: string) => Promise<any>;
+
+  let pyodidePromise: Promise<PyodideAPI> | null = null;
+
+  // The first run pays for loading the runtime
+  const getPyodide = () => {
+    if (!pyodidePromise) {
+      pyodidePromise = importModule(`${pyodideUrl}pyodide.mjs`).then(({ loadPyodide }) => loadPyodide({ indexURL: pyodideUrl }));
+      pyodidePromise.catch(() => { pyodidePromise = null; });
+    }
+    return pyodidePromise;
+  };
+
+  const runPython = async (pyodide: PyodideAPI, code: string) => {
+    const stdout = createOutput();
+    const stderr = createOutput();
+    pyodide.setStdout({ batched: (line: string) => stdout.write(line + '\n') });
+    pyodide.setStderr({ batched: (line: string) => stderr.write(line + '\n') });
+
+    try {
+      try {
+        await pyodide.loadPackagesFromImports(code);
+      } catch (err) {
+        stderr.write(`Some imported packages are not available offline: ${err instanceof Error ? err.message : err}\n`);
+      }
+      // Fresh globals per run so snippets don't see each other's variables
+      const globals = pyodide.globals.get('dict')();
+      try {
+        const value = await pyodide.runPythonAsync(code, { globals });
+        let result: string | undefined;
+        if (value instanceof pyodide.ffi.PyProxy) {
+          result = value.toString();
+          value.destroy();
+        } else if (value !== undefined) {
+          result = String(value);
+        }
+        return { stdout: stdout.read(), stderr: stderr.read(), result };
+      } finally {
+        globals.destroy();
+      }
+    } catch (err) {
+      return { stdout: stdout.read(), stderr: stderr.read(), error: err instanceof Error ? err.message : String(err) };
+    }
+  };
+
+  const handleRequest = async ({ id, language, code }: CodeRunRequest) => {
+    if (language === 'python') {
+      let pyodide: PyodideAPI;
+      try {
+        pyodide = await getPyodide();
+      } catch (err) {
+        console.error("Failed to load Python runtime", err);
+        post({ id, type: 'done', result: { stdout: '', stderr: '', error: 'The Python runtime could not be loaded.' } });
+        return;
+      }
+      post({ id, type: 'started' });
+      post({ id, type: 'done', result: await runPython(pyodide, code) });
+      return;
+    }
+
+    post({ id, type: 'started' });
+    post({ id, type: 'done', result: await runJavaScript(code) });
+  };
+
+  // Runs are queued so their output never interleaves. A run that fails unexpectedly still reports
+  // back, so the page isn't left waiting, and the queue keeps going.
+  let queue = Promise.resolve();
+  self.onmessage = (event: MessageEvent<CodeRunRequest>) => {
+    const request = event.data;
+    queue = queue.then(() => handleRequest(request)).catch(err => {
+      post({ id: request.id, type: 'done', result: { stdout: '', stderr: '', error: err instanceof Error ? err.message : String(err) } });
+    });
+  };
+};
+
+// Runs as the frame's inline script and relays messages between the page and the worker.
+// Pyodide only works in module workers.
+const sandboxFrameMain = (workerSource: string) => {
+  let worker: Worker;
+  try {
+    worker = new Worker(URL.createObjectURL(new Blob([workerSource], { type: 'text/javascript' })), { type: 'module' });
+  } catch (err) {
+    parent.postMessage({ type: 'error', message: `The code sandbox could not start: ${err}` }, '*');
+    return;
+  }
+  worker.onmessage = (event) => parent.postMessage(event.data, '*');
+  worker.onerror = (event) => {
+    event.preventDefault();
+    parent.postMessage({ type: 'error', message: event.message }, '*');
+  };
+  window.onmessage = (event) => {
+    if (event.source === parent) worker.postMessage(event.data);
+  };
+  parent.postMessage({ type: 'ready' }, '*');
+};
+
+const buildSandboxDocument = () => {
+  const pyodideUrl = getPyodideUrl();
+  const workerSource = `(${sandboxWorkerMain})(${MAX_OUTPUT_LENGTH}, ${JSON.stringify(pyodideUrl)});`;
+  // Escaped so nothing in the source can close the <script> tag
+  const script = `(${sandboxFrameMain})(${JSON.stringify(workerSource)});`.replace(/</g, '\\u003c');
+  return `<!DOCTYPE html><html><head><meta http-equiv="Content-Security-Policy" content="${buildCsp(pyodideUrl)}"></head><body><script>${script}</script></body></html>`;
+};
+
+// A worker-like handle on a new sandbox frame; terminate() removes the frame and with it the worker
+export const createSandboxRunner = (): CodeRunnerPort => {
+  const iframe = document.createElement('iframe');
+  iframe.setAttribute('sandbox', 'allow-scripts');
+  iframe.style.display = 'none';
+  iframe.srcdoc = buildSandboxDocument();
+
+  // Requests wait until the frame's script is listening
+  const queued: CodeRunRequest[] = [];
+  let isReady = false;
+
+  const handleMessage = (event: MessageEvent<SandboxMessage>) => {
+    if (event.source !== iframe.contentWindow) return;
+    const message = event.data;
+    if (message.type === 'ready') {
+      isReady = true;
+      queued.splice(0).forEach(request => iframe.contentWindow?.postMessage(request, '*'));
+    } else if (message.type === 'error') {
+      runner.onerror?.(new ErrorEvent('error', { message: message.message }));
+    } else {
+      runner.onmessage?.(new MessageEvent('message', { data: message }));
+    }
+  };
+
+  const runner: CodeRunnerPort = {
+    onmessage: null,
+    onerror: null,
+    postMessage: (request) => {
+      // The frame's origin is opaque, so it can only be addressed with '*'
+      if (isReady) iframe.contentWindow?.postMessage(request, '*');
+      else queued.push(request);
+    },
+    terminate: () => {
+      window.removeEventListener('message', handleMessage);
+      iframe.remove();
+    },
+  };
+
+  window.addEventListener('message', handleMessage);
+  document.body.appendChild(iframe);
+  return runner;
+};
@@ -0,0 +1,153 @@
+import { getDocument, GlobalWorkerOptions, PDFDocumentProxy } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import mammoth from 'mammoth';
+import { Attachment } from '../types';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Keeps text attachments well under Firestore's 1 MB document limit
+const MAX_EXTRACTED_CHARS = 200_000;
+
+// A page with less text than this is treated as a scan and rendered to an image instead
+const SCANNED_PAGE_TEXT_THRESHOLD = 30;
+
+// Rendering many scans would make a huge image; only the first few are kept
+const MAX_SCANNED_PAGES = 4;
+const SCAN_RENDER_WIDTH = 1400;
+
+export const PDF_EXTENSIONS = ['.pdf'];
+export const DOCUMENT_EXTENSIONS = ['.docx', '.txt', '.md', '.csv'];
+
+export const hasExtension = (fileName: string, extensions: string[]) =>
+  extensions.some(ext => fileName.toLowerCase().endsWith(ext));
+
+// Accepts "3", "2-5" or "1-3, 7" and returns sorted, de-duplicated page numbers within 1..pageCount
+export const parsePageRange = (input: string, pageCount: number): number[] => {
+  const pages = new Set<number>();
+  input.split(',').map(part => part.trim()).filter(Boolean).forEach(part => {
+    const [start, end] = part.split('-').map(n => parseInt(n.trim(), 10));
+    if (Number.isNaN(start)) return;
+    const last = Number.isNaN(end) ? start : end;
+    for (let page = Math.max(1, Math.min(start, last)); page <= Math.min(pageCount, Math.max(start, last)); page++) {
+      pages.add(page);
+    }
+  });
+  return Array.from(pages).sort((a, b) => a - b);
+};
+
+export const formatPageList = (pages: number[]): string => {
+  const ranges: string[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    let j = i;
+    while (j + 1 < pages.length && pages[j + 1] === pages[j] + 1) j++;
+    ranges.push(i === j ? `${pages[i]}` : `${pages[i]}-${pages[j]}`);
+    i = j;
+  }
+  return ranges.join(', ');
+};
+
+const capText = (text: string) =>
+  text.length > MAX_EXTRACTED_CHARS ? `${text.slice(0, MAX_EXTRACTED_CHARS)}\n[... document truncated ...]` : text;
+
+export const openPdf = async (file: File): Promise<PDFDocumentProxy> =>
+  getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+
+const renderPage = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<HTMLCanvasElement> => {
+  const page = await pdf.getPage(pageNumber);
+  const baseViewport = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: SCAN_RENDER_WIDTH / baseViewport.width });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+  await page.render({ canvas, viewport }).promise;
+  return canvas;
+};
+
+// Stacks rendered pages vertically into a single JPEG
+const stitchPages = (canvases: HTMLCanvasElement[]): string => {
+  const output = document.createElement('canvas');
+  output.width = Math.max(...canvases.map(c => c.width));
+  output.height = canvases.reduce((sum, c) => sum + c.height, 0);
+  const ctx = output.getContext('2d')!;
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, output.width, output.height);
+  let y = 0;
+  canvases.forEach(c => {
+    ctx.drawImage(c, 0, y);
+    y += c.height;
+  });
+  return output.toDataURL('image/jpeg', 0.85);
+};
+
+export interface PdfExtraction {
+  text?: Attachment; // Pages with a text layer
+  scans?: Attachment; // Pages without one, rendered for the vision route
+  textPages: number[];
+  scannedPages: number[];
+}
+
+export const extractPdf = async (pdf: PDFDocumentProxy, fileName: string, pages: number[], onProgress?: (done: number, total: number) => void): Promise<PdfExtraction> => {
+  const textParts: string[] = [];
+  const textPages: number[] = [];
+  const scannedPages: number[] = [];
+
+  for (const [index, pageNumber] of pages.entries()) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    const text = content.items
+      .map((item: any) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+      .join('')
+      .replace(/[ \t]+/g, ' ')
+      .trim();
+
+    if (text.length < SCANNED_PAGE_TEXT_THRESHOLD) {
+      scannedPages.push(pageNumber);
+    } else {
+      textPages.push(pageNumber);
+      textParts.push(`--- Page ${pageNumber} ---\n${text}`);
+    }
+    onProgress?.(index + 1, pages.length);
+  }
+
+  const result: PdfExtraction = { textPages, scannedPages };
+
+  if (textParts.length > 0) {
+    result.text = {
+      type: 'text',
+      content: capText(textParts.join('\n\n')),
+      fileName: `${fileName} (p. ${formatPageList(textPages)})`,
+      mimeType: 'text/plain'
+    };
+  }
+
+  if (scannedPages.length > 0) {
+    const rendered = scannedPages.slice(0, MAX_SCANNED_PAGES);
+    const canvases = [];
+    for (const pageNumber of rendered) {
+      canvases.push(await renderPage(pdf, pageNumber));
+    }
+    result.scans = {
+      type: 'image',
+      content: stitchPages(canvases),
+      fileName: `${fileName} (scan p. ${formatPageList(rendered)})`,
+      mimeType: 'image/jpeg'
+    };
+  }
+
+  return result;
+};
+
+// .docx via mammoth; plain text formats are read as-is
+export const extractDocumentText = async (file: File): Promise<Attachment> => {
+  const text = file.name.toLowerCase().endsWith('.docx')
+    ? (await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() })).value
+    : await file.text();
+
+  return {
+    type: 'text',
+    content: capText(text.trim()),
+    fileName: file.name,
+    mimeType: file.type || 'text/plain'
+  };
+};
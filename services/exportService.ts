@@ -0,0 +1,169 @@
+import { createElement } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { ChatSession, Message, PracticeProblem, Quiz, Role } from '../types';
+import { FlashcardDraft, parseFlashcardTable } from './flashcardService';
+import { formatExpectedAnswer } from './practiceService';
+
+type ExportableChat = Pick<ChatSession, 'subject' | 'title' | 'createdAt'>;
+
+const toDate = (value: ChatSession['createdAt'] | Message['timestamp']) =>
+  value instanceof Date ? value : value?.toDate?.() || new Date();
+
+const chatTitle = (chat: ExportableChat) => chat.title || `${chat.subject} chat`;
+
+export const exportFileName = (chat: ExportableChat, extension: string) =>
+  `${chatTitle(chat).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 60) || 'chat'}.${extension}`;
+
+const quizToMarkdown = (quiz: Quiz): string => [
+  `**Quiz: ${quiz.title}**`,
+  '',
+  ...quiz.questions.flatMap((q, index) => [
+    `${index + 1}. ${q.question}`,
+    ...q.options.map((option, optionIndex) => `    - ${String.fromCharCode(65 + optionIndex)}) ${option}`),
+    '',
+    `    *Answer: ${String.fromCharCode(65 + q.correctIndex)}. ${q.explanation}*`,
+    '',
+  ]),
+].join('\n');
+
+const practiceToNotes = (problem: PracticeProblem): string => [
+  '',
+  `*Answer: ${formatExpectedAnswer(problem.answer)}*`,
+  ...(problem.solution ? ['', problem.solution] : []),
+].join('\n');
+
+const messageBody = (message: Message): string => {
+  const body = message.quiz
+    ? quizToMarkdown(message.quiz)
+    : message.content + (message.practice ? `\n${practiceToNotes(message.practice)}` : '');
+  const files = (message.attachments || []).map(attachment =>
+    `> ${attachment.type === 'image' ? 'Image' : 'File'}: ${attachment.fileName || 'attachment'}`);
+  return [body, ...(files.length > 0 ? ['', ...files] : [])].join('\n');
+};
+
+// Math stays as $/$$ so the file renders in Obsidian, Typora, VS Code, etc.
+export const chatToMarkdown = (chat: ExportableChat, messages: Message[]): string => [
+  `# ${chatTitle(chat)}`,
+  '',
+  `*${chat.subject} · ${toDate(chat.createdAt).toLocaleDateString()}*`,
+  '',
+  ...messages.flatMap(message => [
+    `## ${message.role === Role.USER ? 'Student' : 'Tutor'}`,
+    '',
+    messageBody(message),
+    '',
+  ]),
+].join('\n');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+  body { font-family: system-ui, -apple-system, "Segoe UI", sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1.5rem; color: #18181b; line-height: 1.6; }
+  h1 { margin-bottom: 0; }
+  .meta { color: #71717a; margin-top: 0.25rem; }
+  .turn { border-top: 1px solid #e4e4e7; padding: 1rem 0; break-inside: avoid-page; }
+  .role { font-size: 0.75rem; font-weight: 600; text-transform: uppercase; letter-spacing: 0.05em; color: #71717a; }
+  .student .content { background: #f4f4f5; border-radius: 0.5rem; padding: 0.75rem 1rem; }
+  pre { background: #27272a; color: #f4f4f5; padding: 0.75rem 1rem; border-radius: 0.5rem; overflow-x: auto; white-space: pre-wrap; }
+  code { font-family: ui-monospace, Menlo, Consolas, monospace; font-size: 0.9em; }
+  blockquote { color: #52525b; border-left: 3px solid #d4d4d8; margin-left: 0; padding-left: 1rem; }
+  math[display="block"] { margin: 1rem 0; }
+  @media print { body { margin: 0; } }
+`;
+
+/**
+ * A single HTML file with the math already typeset. KaTeX emits MathML here, which browsers
+ * render natively, so the file needs no stylesheet or fonts and works offline.
+ */
+export const chatToHtml = async (chat: ExportableChat, messages: Message[]): Promise<string> => {
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const renderMarkdown = (markdown: string): string => renderToStaticMarkup(
+    createElement(ReactMarkdown, {
+      remarkPlugins: [remarkMath],
+      rehypePlugins: [[rehypeKatex, { output: 'mathml' }]],
+    }, markdown)
+  );
+
+  const turns = messages.map(message => {
+    const isUser = message.role === Role.USER;
+    return `<section class="turn ${isUser ? 'student' : 'tutor'}">
+  <div class="role">${isUser ? 'Student' : 'Tutor'}</div>
+  <div class="content">${renderMarkdown(messageBody(message))}</div>
+</section>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(chatTitle(chat))}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(chatTitle(chat))}</h1>
+<p class="meta">${escapeHtml(chat.subject)} · ${toDate(chat.createdAt).toLocaleDateString()}</p>
+${turns}
+</body>
+</html>`;
+};
+
+// Anki renders math with MathJax, which expects \( \) and \[ \] rather than dollar signs
+const toAnkiField = (text: string) =>
+  escapeHtml(text)
+    .replace(/\$\$([\s\S]+?)\$\$/g, '\\[$1\\]')
+    .replace(/\$([^$\n]+?)\$/g, '\\($1\\)')
+    .replace(/\t/g, ' ')
+    .replace(/\r?\n/g, '<br>');
+
+// Every flashcard table the tutor wrote in this chat, without duplicates
+export const collectFlashcards = (messages: Message[]): FlashcardDraft[] => {
+  const seen = new Set<string>();
+  return messages
+    .filter(message => message.role === Role.MODEL)
+    .flatMap(message => parseFlashcardTable(message.content))
+    .filter(card => {
+      const key = `${card.front}\u0000${card.back}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+/**
+ * Tab-separated notes with file headers (Anki 2.1.54+), imported via File > Import.
+ * Cards land in an "OmniTutor::<chat title>" deck using the Basic note type.
+ */
+export const chatToAnki = (chat: ExportableChat, cards: FlashcardDraft[]): string => [
+  '#separator:tab',
+  '#html:true',
+  '#notetype:Basic',
+  `#deck:OmniTutor::${chatTitle(chat).replace(/[\t\n]/g, ' ')}`,
+  `#tags:omnitutor ${chat.subject.replace(/\s+/g, '_')}`,
+  ...cards.map(card => `${toAnkiField(card.front)}\t${toAnkiField(card.back)}`),
+].join('\n');
+
+export const downloadFile = (fileName: string, content: string | Blob, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Opens the HTML export in a new tab and brings up the print dialog ("Save as PDF").
+// The tab is opened before rendering so the popup blocker still sees the user's click.
+export const printHtml = async (render: () => Promise<string>) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) throw new Error("The print window was blocked by the browser.");
+  const html = await render();
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
@@ -0,0 +1,80 @@
+import { FeedbackEntry, FeedbackReason, MessageRating, ResponseSource, SubjectId } from '../types';
+
+export const FEEDBACK_REASONS: { id: FeedbackReason; label: string }[] = [
+  { id: 'wrong_math', label: 'Wrong math' },
+  { id: 'wrong_facts', label: 'Incorrect facts' },
+  { id: 'broken_latex', label: 'Broken LaTeX' },
+  { id: 'too_long', label: 'Too long' },
+  { id: 'too_short', label: 'Too short' },
+  { id: 'unclear', label: 'Hard to follow' },
+  { id: 'other', label: 'Something else' },
+];
+
+export const reasonLabel = (reason: FeedbackReason) => FEEDBACK_REASONS.find(r => r.id === reason)?.label || reason;
+
+// Only keys that are set: Firestore rejects nested undefined values
+export const buildRating = (value: MessageRating['value'], reason?: FeedbackReason): MessageRating =>
+  value === 'down' && reason ? { value, reason } : { value };
+
+export const buildFeedbackEntry = (message: { id: string; content: string; source?: ResponseSource }, chatId: string, subject: SubjectId, rating: MessageRating): FeedbackEntry => ({
+  messageId: message.id,
+  chatId,
+  subject,
+  rating: rating.value,
+  reason: rating.reason,
+  providerId: message.source?.providerId,
+  model: message.source?.model,
+  latencyMs: message.source?.latencyMs,
+  content: message.content,
+});
+
+// --- AGGREGATION ---
+
+export interface FeedbackGroup {
+  key: string;
+  up: number;
+  down: number;
+  total: number;
+  negativeRate: number; // 0-1
+  avgLatencyMs: number | null;
+  reasons: Partial<Record<FeedbackReason, number>>;
+}
+
+// Answers stored before provider tracking have no source
+export const UNKNOWN_PROVIDER = 'unknown';
+
+export const entryDate = (entry: FeedbackEntry): Date | null => {
+  const value: any = entry.createdAt;
+  if (!value) return null;
+  return value instanceof Date ? value : value.toDate?.() || null;
+};
+
+// Groups entries by keyOf, worst routes (highest share of thumbs down) first
+export const groupFeedback = (entries: FeedbackEntry[], keyOf: (entry: FeedbackEntry) => string): FeedbackGroup[] => {
+  const groups = new Map<string, FeedbackEntry[]>();
+  entries.forEach(entry => {
+    const key = keyOf(entry);
+    groups.set(key, [...(groups.get(key) || []), entry]);
+  });
+
+  return Array.from(groups, ([key, group]) => {
+    const down = group.filter(entry => entry.rating === 'down');
+    const latencies = group.map(entry => entry.latencyMs).filter((ms): ms is number => typeof ms === 'number');
+    const reasons: Partial<Record<FeedbackReason, number>> = {};
+    down.forEach(entry => {
+      if (entry.reason) reasons[entry.reason] = (reasons[entry.reason] || 0) + 1;
+    });
+    return {
+      key,
+      up: group.length - down.length,
+      down: down.length,
+      total: group.length,
+      negativeRate: down.length / group.length,
+      avgLatencyMs: latencies.length > 0 ? latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length : null,
+      reasons,
+    };
+  }).sort((a, b) => b.negativeRate - a.negativeRate || b.total - a.total);
+};
+
+export const providerKey = (entry: FeedbackEntry) =>
+  entry.providerId ? `${entry.providerId} · ${entry.model || '?'}` : UNKNOWN_PROVIDER;
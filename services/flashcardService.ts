@@ -0,0 +1,67 @@
+export interface FlashcardDraft {
+  front: string;
+  back: string;
+}
+
+export const FLASHCARD_PROMPT = `Summarize the key concepts of this chat into flashcards.
+Respond with ONLY a JSON object, no prose and no code fences, using exactly this shape:
+{"title": string, "cards": [{"front": string, "back": string}]}
+Keep each side short. Use LaTeX wrapped in $ for any math.`;
+
+// Reads a Markdown table with 'Front' and 'Back' columns (the format the tool used to ask for)
+export const parseFlashcardTable = (markdown: string): FlashcardDraft[] => {
+  const rows = markdown.split('\n').map(line => line.trim()).filter(line => line.startsWith('|'));
+  const cells = (line: string) => line.replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+
+  const headerIndex = rows.findIndex(line => {
+    const headers = cells(line).map(h => h.toLowerCase().replace(/\*/g, ''));
+    return headers.includes('front') && headers.includes('back');
+  });
+  if (headerIndex === -1) return [];
+
+  const headers = cells(rows[headerIndex]).map(h => h.toLowerCase().replace(/\*/g, ''));
+  const frontCol = headers.indexOf('front');
+  const backCol = headers.indexOf('back');
+
+  return rows.slice(headerIndex + 1)
+    .filter(line => !/^\|?\s*:?-{2,}/.test(line)) // separator row
+    .map(cells)
+    .map(row => ({ front: row[frontCol] || '', back: row[backCol] || '' }))
+    .filter(card => card.front && card.back);
+};
+
+export const parseFlashcards = (raw: string, subjectName: string): { title: string; cards: FlashcardDraft[] } => {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+
+  if (start !== -1 && end > start) {
+    try {
+      const data = JSON.parse(raw.slice(start, end + 1));
+      const cards = (Array.isArray(data.cards) ? data.cards : [])
+        .filter((c: any) => typeof c?.front === 'string' && typeof c?.back === 'string' && c.front && c.back)
+        .map((c: any) => ({ front: c.front, back: c.back }));
+      if (cards.length > 0) {
+        return { title: typeof data.title === 'string' && data.title ? data.title : `${subjectName} Flashcards`, cards };
+      }
+    } catch (parseError) {
+      console.warn("Flashcard JSON was malformed, trying table format", parseError);
+    }
+  }
+
+  // Some models ignore the JSON instruction and answer with a table anyway
+  const cards = parseFlashcardTable(raw);
+  if (cards.length === 0) throw new Error("Flashcard response had no usable cards.");
+  return { title: `${subjectName} Flashcards`, cards };
+};
+
+// Rendered into the chat so the deck is still readable in the conversation itself
+export const flashcardsToMarkdown = (title: string, cards: FlashcardDraft[]): string => {
+  const escape = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  return [
+    `**${title}**`,
+    '',
+    '| Front | Back |',
+    '| --- | --- |',
+    ...cards.map(card => `| ${escape(card.front)} | ${escape(card.back)} |`)
+  ].join('\n');
+};
@@ -0,0 +1,34 @@
+import { GenerationSettings, SubjectId } from '../types';
+
+// Stored in localStorage like the other preferences; Settings dispatches a 'storage' event after saving
+const STORAGE_KEY = 'generationSettings';
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  temperature: 0.7,
+  maxOutputTokens: 2048,
+  verbosity: 'balanced',
+};
+
+export const MAX_OUTPUT_TOKEN_OPTIONS = [1024, 2048, 4096, 8192];
+
+const loadAll = (): Record<SubjectId, Partial<GenerationSettings>> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const getGenerationSettings = (subjectId: SubjectId): GenerationSettings => ({
+  ...DEFAULT_GENERATION_SETTINGS,
+  ...loadAll()[subjectId],
+});
+
+// Passing null goes back to the defaults
+export const saveGenerationSettings = (subjectId: SubjectId, settings: GenerationSettings | null) => {
+  const all = loadAll();
+  if (settings) all[subjectId] = settings;
+  else delete all[subjectId];
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+  window.dispatchEvent(new Event('storage'));
+};
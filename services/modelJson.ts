@@ -0,0 +1,24 @@
+// Structured replies (quizzes, practice problems) are JSON written by the model.
+
+// Letter runs after a backslash that are LaTeX commands even though they start like \n
+const LATEX_N_COMMANDS = /^(nabla|neq|ne|nu|neg|not|notin|ni|nleq|ngeq|nmid|nexists|newline)$/;
+
+/**
+ * Models usually write LaTeX into JSON strings with single backslashes. "\frac" and "\theta" then
+ * parse as a form feed and a tab, and "\sqrt" is not valid JSON at all. This doubles every backslash
+ * that isn't a real JSON escape; "\n" followed by text is kept as a line break.
+ */
+export const repairLatexEscapes = (json: string): string =>
+  json.replace(/\\(u[0-9a-fA-F]{4}|["\\/]|[a-zA-Z]+|.?)/g, (match, escape: string) => {
+    if (/^(["\\/]|u[0-9a-fA-F]{4}|[bfnrt])$/.test(escape)) return match;
+    if (escape[0] === 'n' && !LATEX_N_COMMANDS.test(escape)) return match; // A line break followed by text
+    return `\\${match}`;
+  });
+
+// Models often wrap JSON in ```json fences or add a sentence around it; take the outermost object.
+export const parseModelJson = (raw: string, what: string): any => {
+  const start = raw.indexOf('{');
+  const end = raw.lastIndexOf('}');
+  if (start === -1 || end <= start) throw new Error(`${what} response did not contain JSON.`);
+  return JSON.parse(repairLatexEscapes(raw.slice(start, end + 1)));
+};
@@ -0,0 +1,181 @@
+import { compile } from 'mathjs';
+
+// ```plot blocks in tutor answers. One "key: value" per line, e.g.
+//   title: Height of a thrown ball
+//   x: 0, 4
+//   f: 20x - 4.9x^2 | h(t)
+//   point: 2.04, 20.4 | highest point
+export const PLOT_FORMAT = `title: <optional title>
+x: <min>, <max>
+y: <min>, <max>            (optional, chosen automatically if left out)
+xlabel: <optional axis label>
+ylabel: <optional axis label>
+f: <expression in x> | <optional label>     (one line per function, e.g. "f: sin(x) + x^2/4 | f(x)")
+point: <x>, <y> | <optional label>          (one line per marked point)`;
+
+export interface PlotFunction {
+  expression: string;
+  label?: string;
+  evaluate: (x: number) => number;
+}
+
+export interface PlotPoint {
+  x: number;
+  y: number;
+  label?: string;
+}
+
+export interface PlotSpec {
+  title?: string;
+  xLabel?: string;
+  yLabel?: string;
+  x: [number, number];
+  y: [number, number];
+  functions: PlotFunction[];
+  points: PlotPoint[];
+}
+
+export const PLOT_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#0891b2'];
+
+const MAX_FUNCTIONS = PLOT_COLORS.length;
+
+const parseRange = (value: string, key: string): [number, number] => {
+  const [min, max] = value.split(/[,;]/).map(part => compile(part.trim()).evaluate());
+  if (typeof min !== 'number' || typeof max !== 'number' || !(min < max)) {
+    throw new Error(`"${key}" needs a range like "${key}: -5, 5".`);
+  }
+  return [min, max];
+};
+
+// "value | label"
+const splitLabel = (value: string): [string, string | undefined] => {
+  const [body, ...label] = value.split('|');
+  return [body.trim(), label.join('|').trim() || undefined];
+};
+
+const compileFunction = (source: string): PlotFunction['evaluate'] => {
+  // Accept "y = ...", "f(x) = ..." and "h(t) = ..." as well as the bare expression
+  const expression = source.replace(/^\s*(y|[a-zA-Z]\w*\s*\(\s*x\s*\))\s*=/, '');
+  let compiled;
+  try {
+    compiled = compile(expression);
+  } catch (err) {
+    throw new Error(`Could not read the function "${source}": ${err instanceof Error ? err.message : err}`);
+  }
+  return (x: number) => {
+    try {
+      const value = compiled.evaluate({ x });
+      return typeof value === 'number' ? value : NaN; // Complex results are off the real plane
+    } catch {
+      return NaN;
+    }
+  };
+};
+
+const autoRange = (functions: PlotFunction[], points: PlotPoint[], [xMin, xMax]: [number, number]): [number, number] => {
+  const values = points.map(point => point.y);
+  for (const fn of functions) {
+    for (let i = 0; i <= 200; i++) {
+      const y = fn.evaluate(xMin + (xMax - xMin) * i / 200);
+      if (Number.isFinite(y)) values.push(y);
+    }
+  }
+  if (values.length === 0) return [-1, 1];
+
+  // Ignore the extremes so asymptotes (tan, 1/x) don't flatten everything else
+  values.sort((a, b) => a - b);
+  const trim = Math.floor(values.length * 0.02);
+  let min = values[trim];
+  let max = values[values.length - 1 - trim];
+  if (min === max) {
+    min -= 1;
+    max += 1;
+  }
+  const padding = (max - min) * 0.08;
+  return [min - padding, max + padding];
+};
+
+export const parsePlot = (source: string): PlotSpec => {
+  let title: string | undefined;
+  let xLabel: string | undefined;
+  let yLabel: string | undefined;
+  let x: [number, number] = [-10, 10];
+  let y: [number, number] | undefined;
+  const functions: PlotFunction[] = [];
+  const points: PlotPoint[] = [];
+
+  for (const line of source.split('\n')) {
+    const match = line.match(/^\s*([a-zA-Z]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const key = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    switch (key) {
+      case 'title': title = value; break;
+      case 'xlabel': xLabel = value; break;
+      case 'ylabel': yLabel = value; break;
+      case 'x': x = parseRange(value, 'x'); break;
+      case 'y': y = parseRange(value, 'y'); break;
+      case 'f':
+      case 'fn':
+      case 'function': {
+        if (functions.length >= MAX_FUNCTIONS) break;
+        const [expression, label] = splitLabel(value);
+        functions.push({ expression, label, evaluate: compileFunction(expression) });
+        break;
+      }
+      case 'point': {
+        const [coordinates, label] = splitLabel(value);
+        const [px, py] = coordinates.replace(/^\(|\)$/g, '').split(',').map(part => compile(part.trim()).evaluate());
+        if (typeof px === 'number' && typeof py === 'number') points.push({ x: px, y: py, label });
+        break;
+      }
+    }
+  }
+
+  if (functions.length === 0 && points.length === 0) {
+    throw new Error("The plot has no functions or points.");
+  }
+
+  return { title, xLabel, yLabel, x, y: y || autoRange(functions, points, x), functions, points };
+};
+
+// Polyline segments of y = f(x); breaks where the function is undefined or jumps (e.g. at an asymptote)
+export const sampleFunction = (fn: PlotFunction, [xMin, xMax]: [number, number], [yMin, yMax]: [number, number], samples = 400): [number, number][][] => {
+  const segments: [number, number][][] = [];
+  const jump = (yMax - yMin) * 2;
+  let current: [number, number][] = [];
+  let previous: number | null = null;
+
+  for (let i = 0; i <= samples; i++) {
+    const x = xMin + (xMax - xMin) * i / samples;
+    const y = fn.evaluate(x);
+    if (!Number.isFinite(y) || (previous !== null && Math.abs(y - previous) > jump)) {
+      if (current.length > 1) segments.push(current);
+      current = [];
+    }
+    if (Number.isFinite(y)) current.push([x, y]);
+    previous = Number.isFinite(y) ? y : null;
+  }
+  if (current.length > 1) segments.push(current);
+  return segments;
+};
+
+// Round-number tick positions (1, 2 or 5 times a power of ten) covering [min, max]
+export const niceTicks = (min: number, max: number, target = 8): number[] => {
+  const rough = (max - min) / target;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step = [1, 2, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rough) || 10 * magnitude;
+  const ticks: number[] = [];
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(Math.abs(tick) < step * 1e-9 ? 0 : tick);
+  }
+  return ticks;
+};
+
+export const formatNumber = (value: number): string => {
+  if (value === 0) return '0';
+  const abs = Math.abs(value);
+  if (abs >= 1e5 || abs < 1e-3) return value.toExponential(2);
+  return String(Number(value.toPrecision(4)));
+};
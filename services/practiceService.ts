@@ -0,0 +1,205 @@
+import { evaluate, parse, simplify, unit, MathNode, Unit } from 'mathjs';
+import { PracticeAnswer, PracticeProblem, SubjectDefinition } from '../types';
+import { parseModelJson } from './modelJson';
+
+export const PRACTICE_PROMPT = `Write ONE practice problem for the student, on the topic of our conversation so far (or a typical problem for this subject if we haven't talked yet). Make it a little different from any practice problems already in this conversation.
+Respond with ONLY a JSON object, no prose and no code fences, using exactly this shape:
+{"question": string, "answer": <answer>, "solution": string}
+<answer> is one of:
+- {"kind": "numeric", "value": number, "unit": string, "tolerance": number} for a number. "unit" is optional and uses standard symbols a calculator understands (e.g. "m/s^2", "kJ", "mol/L"). "tolerance" is the allowed relative error, e.g. 0.01 for 1%.
+- {"kind": "expression", "expression": string} for an algebraic answer, written in calculator syntax such as "3*x^2 + 2*x" or "sqrt(x)/2".
+- {"kind": "choice", "options": [string, ...], "correctIndex": number} for multiple choice (zero-based index).
+Prefer numeric or expression answers; use choice only for conceptual questions. "question" and "solution" are Markdown with LaTeX wrapped in $, with its backslashes escaped as JSON requires (e.g. "$\\frac{1}{2}$"). "solution" is the full worked solution.`;
+
+const DEFAULT_TOLERANCE = 0.01;
+
+// Only keys that are set: Firestore rejects nested undefined values
+const parseAnswer = (data: any): PracticeAnswer => {
+  if (data?.kind === 'numeric' && typeof data.value === 'number' && Number.isFinite(data.value)) {
+    const answer: PracticeAnswer = { kind: 'numeric', value: data.value };
+    if (typeof data.unit === 'string' && data.unit.trim()) {
+      unit(data.unit.trim()); // Throws if mathjs doesn't know the unit
+      answer.unit = data.unit.trim();
+    }
+    if (typeof data.tolerance === 'number' && data.tolerance > 0 && data.tolerance < 0.5) answer.tolerance = data.tolerance;
+    return answer;
+  }
+  if (data?.kind === 'expression' && typeof data.expression === 'string' && data.expression.trim()) {
+    parse(data.expression); // Throws if it can't be checked
+    return { kind: 'expression', expression: data.expression.trim() };
+  }
+  if (data?.kind === 'choice' && Array.isArray(data.options) && data.options.length >= 2 && data.options.every((o: any) => typeof o === 'string') &&
+    Number.isInteger(data.correctIndex) && data.correctIndex >= 0 && data.correctIndex < data.options.length) {
+    return { kind: 'choice', options: data.options, correctIndex: data.correctIndex };
+  }
+  throw new Error("Practice problem had no checkable answer.");
+};
+
+export const parsePracticeProblem = (raw: string, subject: SubjectDefinition): PracticeProblem => {
+  const data = parseModelJson(raw, 'Practice problem');
+  if (typeof data.question !== 'string' || !data.question.trim()) throw new Error("Practice problem had no question.");
+
+  return {
+    id: crypto.randomUUID(),
+    subject: subject.id,
+    question: data.question.trim(),
+    answer: parseAnswer(data.answer),
+    solution: typeof data.solution === 'string' ? data.solution : '',
+  };
+};
+
+// Message text for a problem: what the tutor sees in later turns, and what search and export pick up
+export const practiceToMarkdown = (problem: PracticeProblem): string => [
+  `**Practice problem:** ${problem.question}`,
+  ...(problem.answer.kind === 'choice'
+    ? ['', ...problem.answer.options.map((option, index) => `- ${String.fromCharCode(65 + index)}) ${option}`)]
+    : []),
+].join('\n');
+
+// --- CHECKING ---
+
+export interface PracticeCheck {
+  correct: boolean;
+  feedback: string; // Why, in one sentence
+}
+
+const isClose = (actual: number, expected: number, tolerance: number) =>
+  expected === 0 ? Math.abs(actual) < 1e-9 : Math.abs(actual - expected) <= Math.abs(expected) * tolerance;
+
+// "x = 5", "y = 3x" -> the right-hand side
+const stripLeftSide = (input: string) => input.includes('=') ? input.slice(input.lastIndexOf('=') + 1) : input;
+
+// Students write "2,5" and "×"/"·"
+const normalizeInput = (input: string) => stripLeftSide(input).replace(/[×·]/g, '*').replace(/−/g, '-').replace(/(\d),(\d)/g, '$1.$2').trim();
+
+const checkNumeric = (answer: Extract<PracticeAnswer, { kind: 'numeric' }>, input: string): PracticeCheck => {
+  const tolerance = answer.tolerance ?? DEFAULT_TOLERANCE;
+  let value: unknown;
+  try {
+    value = evaluate(input);
+  } catch {
+    return { correct: false, feedback: "That doesn't look like a number or quantity." };
+  }
+
+  if (!answer.unit) {
+    if (typeof value !== 'number') return { correct: false, feedback: 'The answer should be a plain number.' };
+    return isClose(value, answer.value, tolerance)
+      ? { correct: true, feedback: 'Correct!' }
+      : { correct: false, feedback: 'That number is not right.' };
+  }
+
+  const expectedUnit = unit(answer.unit);
+  if (typeof value === 'number') {
+    return { correct: false, feedback: `Include the unit, e.g. ${answer.unit}.` };
+  }
+  if (!(value instanceof Unit) || !value.equalBase(expectedUnit)) {
+    return { correct: false, feedback: `The unit doesn't match: the answer is measured in ${answer.unit}.` };
+  }
+  // Any unit of the same dimension is fine, e.g. 0.5 km for 500 m
+  return isClose(value.toNumber(answer.unit), answer.value, tolerance)
+    ? { correct: true, feedback: 'Correct!' }
+    : { correct: false, feedback: 'The unit is right, but the value is not.' };
+};
+
+const CONSTANTS = new Set(['e', 'pi', 'i', 'E', 'PI', 'Infinity', 'NaN', 'tau', 'phi']);
+
+const variablesOf = (node: MathNode): string[] => {
+  const names = new Set<string>();
+  node.traverse((child: any, _path, parent: any) => {
+    // Function names ("sin" in sin(x)) are symbols too
+    if (child.isSymbolNode && !(parent?.isFunctionNode && parent.fn === child) && !CONSTANTS.has(child.name)) names.add(child.name);
+  });
+  return [...names];
+};
+
+// Equivalent if their difference simplifies to 0, or failing that, if they agree at random points
+const checkExpression = (answer: Extract<PracticeAnswer, { kind: 'expression' }>, input: string): PracticeCheck => {
+  let studentNode: MathNode;
+  const expectedNode = parse(stripLeftSide(answer.expression));
+  try {
+    studentNode = parse(input);
+  } catch {
+    return { correct: false, feedback: "That expression couldn't be read. Use * for multiplication and ^ for powers." };
+  }
+
+  const expectedVariables = variablesOf(expectedNode);
+  const extra = variablesOf(studentNode).filter(name => !expectedVariables.includes(name));
+  if (extra.length > 0) {
+    return { correct: false, feedback: `The answer shouldn't depend on ${extra.join(', ')}.` };
+  }
+
+  try {
+    const difference = simplify(`(${studentNode.toString()}) - (${expectedNode.toString()})`);
+    if (difference.toString() === '0') return { correct: true, feedback: 'Correct!' };
+  } catch {
+    // Fall through to numeric sampling
+  }
+
+  const studentFn = studentNode.compile();
+  const expectedFn = expectedNode.compile();
+  let compared = 0;
+  for (let attempt = 0; attempt < 40 && compared < 8; attempt++) {
+    const scope = {
+      ...Object.fromEntries(expectedVariables.map(name => [name, Math.round((Math.random() * 6 - 3) * 1000) / 1000 || 0.5])),
+      ln: Math.log, // mathjs only knows log
+    };
+    let expected: unknown;
+    let actual: unknown;
+    try {
+      expected = expectedFn.evaluate(scope);
+      actual = studentFn.evaluate(scope);
+    } catch {
+      continue;
+    }
+    if (typeof expected !== 'number' || !Number.isFinite(expected)) continue; // Outside the domain
+    if (typeof actual !== 'number' || !isClose(actual, expected, 1e-6)) {
+      return { correct: false, feedback: 'That expression is not equivalent to the answer.' };
+    }
+    compared++;
+  }
+  return compared >= 3
+    ? { correct: true, feedback: 'Correct! (equivalent to the expected answer)' }
+    : { correct: false, feedback: "Your answer couldn't be compared with the expected one." };
+};
+
+// Checks a typed answer (or, for multiple choice, the index of the chosen option) locally
+export const checkPracticeAnswer = (answer: PracticeAnswer, response: string): PracticeCheck => {
+  if (answer.kind === 'choice') {
+    return Number(response) === answer.correctIndex
+      ? { correct: true, feedback: 'Correct!' }
+      : { correct: false, feedback: 'That option is not right.' };
+  }
+  const input = normalizeInput(response);
+  if (!input) return { correct: false, feedback: 'Enter an answer first.' };
+  return answer.kind === 'numeric' ? checkNumeric(answer, input) : checkExpression(answer, input);
+};
+
+export const formatExpectedAnswer = (answer: PracticeAnswer): string => {
+  switch (answer.kind) {
+    case 'numeric': return `${answer.value}${answer.unit ? ` ${answer.unit}` : ''}`;
+    case 'expression': return answer.expression;
+    case 'choice': return answer.options[answer.correctIndex];
+  }
+};
+
+// LaTeX preview of what the student typed, or null while it can't be parsed
+export const previewAnswer = (response: string): string | null => {
+  const input = normalizeInput(response);
+  if (!input) return null;
+  try {
+    return parse(input).toTex();
+  } catch {
+    return null;
+  }
+};
+
+// Shown to the student as their message
+export const describeAttempt = (problem: PracticeProblem, response: string): string =>
+  problem.answer.kind === 'choice' ? problem.answer.options[Number(response)] ?? response : response;
+
+// Sent to the tutor after a wrong answer, so it can explain the mistake rather than re-check it
+export const buildMistakePrompt = (problem: PracticeProblem, response: string, check: PracticeCheck): string =>
+  `I answered this practice problem: ${problem.question}
+My answer: ${describeAttempt(problem, response)}
+The automatic checker marked this as incorrect (${check.feedback}). The expected answer is ${formatExpectedAnswer(problem.answer)}.
+Explain what I most likely did wrong and how to fix it, without just repeating the full solution.`;
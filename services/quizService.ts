@@ -0,0 +1,33 @@
+import { Quiz, QuizQuestion, SubjectDefinition } from '../types';
+import { parseModelJson } from './modelJson';
+
+export const QUIZ_PROMPT = `Create a 5-question multiple choice quiz based on our conversation so far.
+Respond with ONLY a JSON object, no prose and no code fences, using exactly this shape:
+{"title": string, "questions": [{"question": string, "options": [string, string, string, string], "correctIndex": number, "explanation": string}]}
+"correctIndex" is the zero-based index of the correct option. Use LaTeX wrapped in $ for any math, and escape its backslashes as JSON requires, e.g. "$\\frac{1}{2}$".`;
+
+const isValidQuestion = (q: any): q is QuizQuestion =>
+  typeof q?.question === 'string' &&
+  Array.isArray(q.options) && q.options.length >= 2 && q.options.every((o: any) => typeof o === 'string') &&
+  Number.isInteger(q.correctIndex) && q.correctIndex >= 0 && q.correctIndex < q.options.length;
+
+export const parseQuiz = (raw: string, subject: SubjectDefinition): Quiz => {
+  const data = parseModelJson(raw, 'Quiz');
+  const questions: QuizQuestion[] = (Array.isArray(data.questions) ? data.questions : [])
+    .filter(isValidQuestion)
+    .map((q: QuizQuestion) => ({
+      question: q.question,
+      options: q.options,
+      correctIndex: q.correctIndex,
+      explanation: typeof q.explanation === 'string' ? q.explanation : ''
+    }));
+
+  if (questions.length === 0) throw new Error("Quiz response had no valid questions.");
+
+  return {
+    id: crypto.randomUUID(),
+    title: typeof data.title === 'string' && data.title ? data.title : `${subject.name} Quiz`,
+    subject: subject.id,
+    questions
+  };
+};
@@ -0,0 +1,173 @@
+import { ChatSession, Message, Role, SubjectId } from '../types';
+
+export interface SearchDocument {
+  chatId: string;
+  chatTitle: string;
+  subject: SubjectId;
+  message: Message;
+  // Precomputed once per message so each keystroke only scans
+  text: string;
+  folded: string;
+  positions: number[];
+}
+
+export type DateRange = 'any' | 'week' | 'month' | 'year';
+
+export interface SearchFilters {
+  subject: SubjectId | 'all';
+  role: Role | 'all';
+  dateRange: DateRange;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  chatId: string;
+  chatTitle: string;
+  subject: SubjectId;
+  messageId: string;
+  role: Role;
+  timestamp: Date;
+  snippet: SnippetPart[];
+  score: number;
+}
+
+const MAX_RESULTS = 50;
+const SNIPPET_BEFORE = 60;
+const SNIPPET_AFTER = 140;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RANGE_DAYS: Record<Exclude<DateRange, 'any'>, number> = { week: 7, month: 31, year: 366 };
+
+const toDate = (value: Message['timestamp']) => (value instanceof Date ? value : value?.toDate?.() || new Date(0));
+
+/**
+ * Lower-cases and strips accents so "chatelier" finds "Châtelier", keeping a map from each
+ * folded character back to its position in the original text for highlighting.
+ */
+const fold = (text: string): { folded: string; positions: number[] } => {
+  let folded = '';
+  const positions: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const chunk = text[i].normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+    folded += chunk;
+    for (let j = 0; j < chunk.length; j++) positions.push(i);
+  }
+  return { folded, positions };
+};
+
+// Splits on whitespace, keeping "quoted phrases" together
+export const parseQuery = (query: string): string[] =>
+  (query.match(/"[^"]+"|\S+/g) || [])
+    .map(term => fold(term.replace(/^"|"$/g, '')).folded.trim())
+    .filter(term => term.length > 0);
+
+// Text a message can be found by: its content plus any quiz it carries
+const searchableText = (message: Message): string =>
+  message.quiz
+    ? [message.quiz.title, ...message.quiz.questions.flatMap(q => [q.question, ...q.options, q.explanation])].join('\n')
+    : message.content;
+
+const findAll = (haystack: string, needle: string): number[] => {
+  const found: number[] = [];
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+    found.push(index);
+  }
+  return found;
+};
+
+const buildSnippet = (text: string, ranges: [number, number][]): SnippetPart[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  let start = Math.max(0, sorted[0][0] - SNIPPET_BEFORE);
+  let end = Math.min(text.length, sorted[0][1] + SNIPPET_AFTER);
+  // Snap to word boundaries
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(' ', end) > sorted[0][1] ? text.lastIndexOf(' ', end) : end;
+
+  const parts: SnippetPart[] = [];
+  const clean = (segment: string) => segment.replace(/\s+/g, ' ');
+  let cursor = start;
+  sorted.filter(([from, to]) => from >= start && to <= end).forEach(([from, to]) => {
+    if (from < cursor) return; // Overlapping match
+    if (from > cursor) parts.push({ text: clean(text.slice(cursor, from)), match: false });
+    parts.push({ text: text.slice(from, to), match: true });
+    cursor = to;
+  });
+  if (cursor < end) parts.push({ text: clean(text.slice(cursor, end)), match: false });
+
+  if (start > 0) parts.unshift({ text: '…', match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+};
+
+export const buildSearchDocuments = (sessions: ChatSession[], messagesByChat: Map<string, Message[]>): SearchDocument[] =>
+  sessions.flatMap(session => (messagesByChat.get(session.id) || []).map(message => {
+    const text = searchableText(message);
+    return {
+      chatId: session.id,
+      chatTitle: session.title || 'New Chat',
+      subject: session.subject,
+      message,
+      text,
+      ...fold(text),
+    };
+  }));
+
+/**
+ * Every term has to appear in a message for it to match. Matches at the start of a word
+ * count more than ones inside a word, and newer messages win ties.
+ */
+export const searchMessages = (documents: SearchDocument[], query: string, filters: SearchFilters): SearchResult[] => {
+  const terms = parseQuery(query);
+  if (terms.length === 0) return [];
+
+  const since = filters.dateRange === 'any' ? 0 : Date.now() - RANGE_DAYS[filters.dateRange] * DAY_MS;
+  const results: SearchResult[] = [];
+
+  for (const doc of documents) {
+    if (filters.subject !== 'all' && doc.subject !== filters.subject) continue;
+    if (filters.role !== 'all' && doc.message.role !== filters.role) continue;
+    const timestamp = toDate(doc.message.timestamp);
+    if (timestamp.getTime() < since) continue;
+
+    const { text, folded, positions } = doc;
+    const ranges: [number, number][] = [];
+    let score = 0;
+    let matchedAll = true;
+
+    for (const term of terms) {
+      const hits = findAll(folded, term);
+      if (hits.length === 0) {
+        matchedAll = false;
+        break;
+      }
+      hits.forEach(hit => {
+        const atWordStart = hit === 0 || !/[a-z0-9]/.test(folded[hit - 1]);
+        score += atWordStart ? 3 : 1;
+        ranges.push([positions[hit], positions[hit + term.length - 1] + 1]);
+      });
+    }
+    if (!matchedAll) continue;
+
+    // The whole query as typed, as a phrase
+    if (terms.length > 1 && folded.includes(terms.join(' '))) score += 5;
+
+    results.push({
+      chatId: doc.chatId,
+      chatTitle: doc.chatTitle,
+      subject: doc.subject,
+      messageId: doc.message.id,
+      role: doc.message.role,
+      timestamp,
+      snippet: buildSnippet(text, ranges),
+      score,
+    });
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || b.timestamp.getTime() - a.timestamp.getTime())
+    .slice(0, MAX_RESULTS);
+};
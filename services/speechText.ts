@@ -0,0 +1,202 @@
+// Turns tutor answers (Markdown + LaTeX) into plain sentences a speech synthesizer can read naturally.
+
+const GREEK_LETTERS = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'varepsilon', 'zeta', 'eta', 'theta', 'vartheta', 'iota', 'kappa',
+  'lambda', 'mu', 'nu', 'xi', 'pi', 'rho', 'sigma', 'tau', 'upsilon', 'phi', 'varphi', 'chi', 'psi', 'omega',
+];
+
+const LATEX_WORDS: Record<string, string> = {
+  times: 'times', cdot: 'times', div: 'divided by', pm: 'plus or minus', mp: 'minus or plus',
+  neq: 'is not equal to', ne: 'is not equal to', leq: 'is less than or equal to', le: 'is less than or equal to',
+  geq: 'is greater than or equal to', ge: 'is greater than or equal to', approx: 'is approximately', equiv: 'is equivalent to',
+  propto: 'is proportional to', sim: 'is similar to', infty: 'infinity', to: 'approaches', rightarrow: 'gives',
+  Rightarrow: 'implies', leftrightarrow: 'is equivalent to', iff: 'if and only if', implies: 'implies',
+  partial: 'partial', nabla: 'del', circ: 'degrees', degree: 'degrees', angle: 'angle', perp: 'is perpendicular to',
+  parallel: 'is parallel to', in: 'in', notin: 'not in', subset: 'is a subset of', cup: 'union', cap: 'intersection',
+  forall: 'for all', exists: 'there exists', therefore: 'therefore', ldots: 'and so on', cdots: 'and so on', dots: 'and so on',
+  sin: 'sine', cos: 'cosine', tan: 'tangent', sec: 'secant', csc: 'cosecant', cot: 'cotangent',
+  arcsin: 'arc sine', arccos: 'arc cosine', arctan: 'arc tangent', log: 'log', ln: 'natural log', exp: 'e to the',
+  max: 'max', min: 'min', det: 'determinant of', hbar: 'h bar', ell: 'l',
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  '+': 'plus', '-': 'minus', '=': 'equals', '<': 'is less than', '>': 'is greater than', '/': 'over',
+  '*': 'times', '!': 'factorial', '%': 'percent', ',': ',',
+};
+
+// Commands that only affect layout and have nothing to say
+const SILENT_COMMANDS = new Set(['left', 'right', 'big', 'Big', 'bigg', 'Bigg', 'quad', 'qquad', 'displaystyle', 'limits', 'nolimits']);
+const TEXT_COMMANDS = new Set(['text', 'textrm', 'textbf', 'textit', 'mathrm', 'mathbf', 'mathit', 'mathcal', 'mathbb', 'operatorname', 'boldsymbol', 'vec', 'hat', 'bar', 'overline', 'ce', 'pu']);
+
+// Big operators whose sub/superscripts are limits: \int_0^1 is "the integral from 0 to 1 of"
+const BOUNDED_OPERATORS: Record<string, string> = {
+  int: 'the integral', iint: 'the double integral', oint: 'the contour integral', sum: 'the sum', prod: 'the product',
+};
+
+const ORDINALS: Record<string, string> = { '2': 'square', '3': 'cube', '4': 'fourth', '5': 'fifth', n: 'n-th' };
+
+const isSimple = (spoken: string) => !spoken.includes(' ');
+
+/**
+ * Speaks a LaTeX expression, e.g. "\frac{a}{b}" -> "a over b", "x^2" -> "x squared".
+ * Covers the constructs tutors actually use; anything unknown is read by its command name.
+ */
+export const latexToSpeech = (latex: string): string => {
+  let i = 0;
+
+  const readCommandName = (): string => {
+    const start = i;
+    while (i < latex.length && /[a-zA-Z]/.test(latex[i])) i++;
+    if (i === start && i < latex.length) i++; // Single-character commands such as "\," or "\{"
+    return latex.slice(start, i);
+  };
+
+  // A braced group, a command or a single character
+  const readArgument = (): string => {
+    while (latex[i] === ' ') i++;
+    if (latex[i] === '{') {
+      let depth = 0;
+      const start = i + 1;
+      for (; i < latex.length; i++) {
+        if (latex[i] === '{') depth++;
+        else if (latex[i] === '}' && --depth === 0) break;
+      }
+      return latex.slice(start, i++);
+    }
+    if (latex[i] === '\\') {
+      i++;
+      return `\\${readCommandName()}`;
+    }
+    return latex[i++] || '';
+  };
+
+  const readOptional = (): string | null => {
+    if (latex[i] !== '[') return null;
+    const end = latex.indexOf(']', i);
+    if (end === -1) return null;
+    const value = latex.slice(i + 1, end);
+    i = end + 1;
+    return value;
+  };
+
+  const words: string[] = [];
+  while (i < latex.length) {
+    const ch = latex[i];
+
+    if (ch === '\\') {
+      i++;
+      const command = readCommandName();
+      if (command === 'frac' || command === 'dfrac' || command === 'tfrac') {
+        const numerator = latexToSpeech(readArgument());
+        const denominator = latexToSpeech(readArgument());
+        words.push(isSimple(numerator) && isSimple(denominator)
+          ? `${numerator} over ${denominator}`
+          : `the fraction ${numerator}, over ${denominator},`);
+      } else if (command === 'sqrt') {
+        const index = readOptional();
+        const radicand = latexToSpeech(readArgument());
+        words.push(index ? `the ${ORDINALS[index] || `${latexToSpeech(index)}-th`} root of ${radicand}` : `the square root of ${radicand}`);
+      } else if (BOUNDED_OPERATORS[command] || command === 'lim') {
+        let lower = '';
+        let upper = '';
+        for (let bound = 0; bound < 2; bound++) {
+          while (latex[i] === ' ') i++;
+          if (latex[i] === '_') { i++; lower = latexToSpeech(readArgument()); }
+          else if (latex[i] === '^') { i++; upper = latexToSpeech(readArgument()); }
+        }
+        if (command === 'lim') words.push(lower ? `the limit as ${lower} of` : 'the limit of');
+        else if (lower && upper) words.push(`${BOUNDED_OPERATORS[command]} from ${lower} to ${upper} of`);
+        else if (lower) words.push(`${BOUNDED_OPERATORS[command]} over ${lower} of`);
+        else words.push(`${BOUNDED_OPERATORS[command]} of`);
+      } else if (TEXT_COMMANDS.has(command)) {
+        const argument = readArgument();
+        words.push(command.startsWith('text') ? argument : latexToSpeech(argument));
+      } else if (SILENT_COMMANDS.has(command) || !/[a-zA-Z]/.test(command)) {
+        // Spacing and escaped punctuation
+      } else if (LATEX_WORDS[command]) {
+        words.push(LATEX_WORDS[command]);
+      } else if (GREEK_LETTERS.includes(command.toLowerCase())) {
+        words.push(command.replace(/^var/, ''));
+      } else {
+        words.push(command);
+      }
+    } else if (ch === '^') {
+      i++;
+      const exponent = readArgument().trim();
+      if (exponent === '2') words.push('squared');
+      else if (exponent === '3') words.push('cubed');
+      else if (exponent === '\\circ') words.push('degrees');
+      else if (exponent === '\\prime' || exponent === "'") words.push('prime');
+      else words.push(`to the power of ${latexToSpeech(exponent)}`);
+    } else if (ch === '_') {
+      i++;
+      words.push(`sub ${latexToSpeech(readArgument())}`);
+    } else if (ch === '{') {
+      words.push(latexToSpeech(readArgument()));
+    } else if (/\d/.test(ch)) {
+      const start = i;
+      while (i < latex.length && /[\d.]/.test(latex[i])) i++;
+      words.push(latex.slice(start, i));
+    } else if (/[a-zA-Z]/.test(ch)) {
+      words.push(ch); // Adjacent letters are separate variables: "xy" is "x y"
+      i++;
+    } else {
+      if (LATEX_SYMBOLS[ch]) words.push(LATEX_SYMBOLS[ch]);
+      i++;
+    }
+  }
+
+  return words.join(' ').replace(/\s+,/g, ',').replace(/\s+/g, ' ').trim();
+};
+
+const isTableLine = (line: string) => /^\s*\|.*\|\s*$/.test(line);
+
+/**
+ * Converts a Markdown answer into the sentences that will be spoken, in order.
+ * Code blocks and tables are summarized instead of read out symbol by symbol.
+ */
+export const markdownToSpeech = (markdown: string): string[] => {
+  let text = markdown
+    // Fenced code
+    .replace(/```(\w*)[^\n]*\n[\s\S]*?(```|$)/g, (_match, lang: string) =>
+      `\n${lang ? `A ${lang} code example` : 'A code example'} is shown on screen.\n`)
+    // Display math
+    .replace(/\$\$([\s\S]+?)\$\$/g, (_match, latex: string) => `\n${latexToSpeech(latex)}.\n`)
+    .replace(/\\\[([\s\S]+?)\\\]/g, (_match, latex: string) => `\n${latexToSpeech(latex)}.\n`)
+    // Inline math
+    .replace(/\\\(([\s\S]+?)\\\)/g, (_match, latex: string) => latexToSpeech(latex))
+    .replace(/\$([^$\n]+?)\$/g, (_match, latex: string) => latexToSpeech(latex));
+
+  // Tables: say how big they are rather than reading every cell
+  const lines: string[] = [];
+  const source = text.split('\n');
+  for (let n = 0; n < source.length; n++) {
+    if (!isTableLine(source[n])) {
+      lines.push(source[n]);
+      continue;
+    }
+    let end = n;
+    while (end + 1 < source.length && isTableLine(source[end + 1])) end++;
+    const rows = source.slice(n, end + 1).filter(line => !/^\s*\|[\s:|-]+\|\s*$/.test(line));
+    const bodyRows = Math.max(0, rows.length - 1);
+    lines.push(`A table with ${bodyRows} row${bodyRows === 1 ? '' : 's'} is shown on screen.`);
+    n = end;
+  }
+  text = lines.join('\n');
+
+  text = text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // Links
+    .replace(/`([^`]+)`/g, '$1') // Inline code
+    .replace(/^\s{0,3}#{1,6}\s+(.*)$/gm, '$1.') // Headings read as their own sentence
+    .replace(/^\s*>\s?/gm, '') // Block quotes
+    .replace(/^\s*([-*+]|\d+[.)])\s+/gm, '') // List markers
+    .replace(/^\s*([-*_]\s*){3,}$/gm, '') // Horizontal rules
+    .replace(/(\*\*|__|\*|_|~~)(?=\S)([^*_~]+?)\1/g, '$2'); // Emphasis
+
+  return text
+    .split(/\n+/)
+    .flatMap(block => block.split(/(?<=[.!?:])\s+(?=[A-Z0-9"'(])/))
+    .map(sentence => sentence.replace(/\s+/g, ' ').replace(/\.\.$/, '.').trim())
+    .filter(sentence => /[a-zA-Z0-9]/.test(sentence));
+};
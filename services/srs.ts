@@ -0,0 +1,47 @@
+import { Flashcard } from '../types';
+
+// SM-2 spaced repetition (https://super-memory.com/english/ol/sm2.htm)
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const REVIEW_GRADES: { label: string; quality: ReviewQuality }[] = [
+  { label: 'Again', quality: 1 },
+  { label: 'Hard', quality: 3 },
+  { label: 'Good', quality: 4 },
+  { label: 'Easy', quality: 5 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+export const newCardSchedule = (now = new Date()): Pick<Flashcard, 'ease' | 'interval' | 'repetitions' | 'due'> => ({
+  ease: 2.5,
+  interval: 0,
+  repetitions: 0,
+  due: now
+});
+
+export const scheduleReview = (card: Flashcard, quality: ReviewQuality, now = new Date()): Pick<Flashcard, 'ease' | 'interval' | 'repetitions' | 'due'> => {
+  let { ease, interval, repetitions } = card;
+
+  if (quality < 3) {
+    // Lapse: start the card over but keep its (reduced) ease
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * ease);
+  }
+
+  ease = Math.max(MIN_EASE, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  return { ease, interval, repetitions, due: new Date(now.getTime() + interval * DAY_MS) };
+};
+
+const toDate = (value: Flashcard['due']): Date => (value instanceof Date ? value : value.toDate());
+
+// "Due today" means due any time before the end of the current day
+export const isDueToday = (card: Flashcard, now = new Date()): boolean => {
+  const endOfDay = new Date(now);
+  endOfDay.setHours(23, 59, 59, 999);
+  return toDate(card.due).getTime() <= endOfDay.getTime();
+};
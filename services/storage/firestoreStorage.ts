@@ -0,0 +1,241 @@
+import { getDb, getFileStorage, storageRef, uploadString, getDownloadURL, getBlob, collection, addDoc, query, orderBy, where, onSnapshot, serverTimestamp, doc, setDoc, updateDoc, deleteDoc, getDocs, writeBatch, collectionGroup } from '../../firebase';
+import { ChatSession, FeedbackEntry, Flashcard, FlashcardDeck, Message, QuizAttempt, SubjectDefinition, UsageRecord } from '../../types';
+import { migrateLegacyChats } from '../chatMigration';
+import { AttachmentRepository, ChatRepository, FeedbackRepository, FlashcardRepository, QuizRepository, StorageAdapter, SubjectRepository, UsageRepository } from './types';
+import { blobToDataUrl, isInlineImage } from './blobUtils';
+import { normalizeMessage } from './normalize';
+
+// Layout:
+//   users/{uid}/chats/{chatId}/messages/{messageId}
+//   users/{uid}/quizAttempts/{attemptId}
+//   users/{uid}/decks/{deckId}/cards/{cardId}
+//   users/{uid}/subjects/{subjectId}
+//   users/{uid}/feedback/{messageId}
+//   users/{uid}/usage/{recordId} (only when usage sync is on)
+//   feedback/{feedbackId} (legacy, no longer written)
+// Images: Cloud Storage at users/{uid}/chats/{chatId}/{uuid}-{fileName}
+
+// Firestore rejects undefined field values
+const withoutUndefined = <T extends object>(data: T) =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+
+const toMessage = (d: { id: string; data: () => any }): Message => normalizeMessage({
+  id: d.id,
+  ...d.data(),
+  timestamp: d.data().timestamp?.toDate() || new Date(),
+} as Message);
+
+const chats: ChatRepository = {
+  subscribeSessions: (userId, onChange) => {
+    // One-time move of per-subject histories into real threads
+    migrateLegacyChats(userId).catch((err) => console.error("Chat migration failed", err));
+
+    const q = query(collection(getDb(), `users/${userId}/chats`), orderBy('updatedAt', 'desc'));
+    return onSnapshot(q, (snapshot) => {
+      onChange(snapshot.docs.map(d => ({
+        id: d.id,
+        ...d.data(),
+        createdAt: d.data().createdAt?.toDate() || new Date(),
+        updatedAt: d.data().updatedAt?.toDate() || new Date(),
+      })) as ChatSession[]);
+    });
+  },
+
+  subscribeMessages: (userId, chatId, onChange) => {
+    const q = query(collection(getDb(), `users/${userId}/chats/${chatId}/messages`), orderBy('timestamp', 'asc'));
+    return onSnapshot(q, (snapshot) => onChange(snapshot.docs.map(toMessage)));
+  },
+
+  loadMessages: async (userId, chatId) => {
+    const q = query(collection(getDb(), `users/${userId}/chats/${chatId}/messages`), orderBy('timestamp', 'asc'));
+    return (await getDocs(q)).docs.map(toMessage);
+  },
+
+  createChat: async (userId, subject) => {
+    const chatRef = await addDoc(collection(getDb(), `users/${userId}/chats`), {
+      subject,
+      title: '',
+      userId,
+      createdAt: serverTimestamp(),
+      updatedAt: serverTimestamp(),
+    });
+    return chatRef.id;
+  },
+
+  updateChat: async (userId, chatId, data) => {
+    await updateDoc(doc(getDb(), `users/${userId}/chats/${chatId}`), withoutUndefined(data));
+  },
+
+  addMessage: async (userId, chatId, message, chatUpdate = {}) => {
+    const messageRef = await addDoc(collection(getDb(), `users/${userId}/chats/${chatId}/messages`), {
+      ...withoutUndefined(message),
+      timestamp: serverTimestamp(),
+    });
+    await updateDoc(doc(getDb(), `users/${userId}/chats/${chatId}`), {
+      ...withoutUndefined(chatUpdate),
+      updatedAt: serverTimestamp(),
+    });
+    return messageRef.id;
+  },
+
+  updateMessage: async (userId, chatId, messageId, update) => {
+    await updateDoc(doc(getDb(), `users/${userId}/chats/${chatId}/messages/${messageId}`), withoutUndefined(update));
+    await updateDoc(doc(getDb(), `users/${userId}/chats/${chatId}`), { updatedAt: serverTimestamp() });
+  },
+};
+
+const feedback: FeedbackRepository = {
+  recordFeedback: async (userId, entry) => {
+    await setDoc(doc(getDb(), `users/${userId}/feedback/${entry.messageId}`), {
+      ...withoutUndefined(entry),
+      createdAt: serverTimestamp(),
+    });
+  },
+
+  // Everyone's feedback is a collection group query over users/*/feedback
+  loadFeedback: async (userId, allUsers) => {
+    const snapshot = await getDocs(allUsers ? collectionGroup(getDb(), 'feedback') : collection(getDb(), `users/${userId}/feedback`));
+    return snapshot.docs
+      .filter(d => d.ref.parent.parent) // Skip the legacy top-level collection
+      .map(d => ({
+        ...d.data(),
+        userId: d.ref.parent.parent!.id,
+        createdAt: d.data().createdAt?.toDate() || new Date(),
+      })) as FeedbackEntry[];
+  },
+};
+
+const quizzes: QuizRepository = {
+  subscribeAttempts: (userId, quizId, onChange) => {
+    const q = query(collection(getDb(), `users/${userId}/quizAttempts`), where('quizId', '==', quizId));
+    return onSnapshot(q, (snapshot) => {
+      const attempts = snapshot.docs.map(d => ({
+        id: d.id,
+        ...d.data(),
+        completedAt: d.data().completedAt?.toDate() || new Date(),
+      })) as QuizAttempt[];
+      // Sorted client-side to avoid needing a composite index
+      attempts.sort((a, b) => (a.completedAt as Date).getTime() - (b.completedAt as Date).getTime());
+      onChange(attempts);
+    });
+  },
+
+  addAttempt: async (userId, attempt) => {
+    await addDoc(collection(getDb(), `users/${userId}/quizAttempts`), {
+      ...attempt,
+      completedAt: serverTimestamp()
+    });
+  },
+};
+
+const flashcards: FlashcardRepository = {
+  subscribeDecks: (userId, onChange) => {
+    let decks: Omit<FlashcardDeck, 'cards'>[] = [];
+    const cardsByDeck: Record<string, Flashcard[]> = {};
+    const cardListeners = new Map<string, () => void>();
+
+    const emit = () => onChange(decks.map(deck => ({ ...deck, cards: cardsByDeck[deck.id] || [] })));
+
+    const q = query(collection(getDb(), `users/${userId}/decks`), orderBy('createdAt', 'desc'));
+    const unsubscribeDecks = onSnapshot(q, (snapshot) => {
+      decks = snapshot.docs.map(d => ({
+        id: d.id,
+        ...d.data(),
+        createdAt: d.data().createdAt?.toDate() || new Date(),
+      })) as Omit<FlashcardDeck, 'cards'>[];
+
+      // One card listener per deck so reviews show up immediately everywhere
+      decks.forEach(deck => {
+        if (cardListeners.has(deck.id)) return;
+        cardListeners.set(deck.id, onSnapshot(collection(getDb(), `users/${userId}/decks/${deck.id}/cards`), (cardSnapshot) => {
+          cardsByDeck[deck.id] = cardSnapshot.docs.map(d => ({
+            id: d.id,
+            ...d.data(),
+            due: d.data().due?.toDate() || new Date(),
+          })) as Flashcard[];
+          emit();
+        }));
+      });
+      emit();
+    });
+
+    return () => {
+      unsubscribeDecks();
+      cardListeners.forEach(unsubscribe => unsubscribe());
+    };
+  },
+
+  createDeck: async (userId, deck, cards) => {
+    const deckRef = await addDoc(collection(getDb(), `users/${userId}/decks`), {
+      ...withoutUndefined(deck),
+      createdAt: serverTimestamp(),
+    });
+
+    const batch = writeBatch(getDb());
+    cards.forEach(card => {
+      batch.set(doc(collection(getDb(), `users/${userId}/decks/${deckRef.id}/cards`)), card);
+    });
+    await batch.commit();
+
+    return deckRef.id;
+  },
+
+  updateCard: async (userId, deckId, cardId, update) => {
+    await updateDoc(doc(getDb(), `users/${userId}/decks/${deckId}/cards/${cardId}`), {
+      ...withoutUndefined(update),
+      lastReviewedAt: serverTimestamp(),
+    });
+  },
+};
+
+const subjects: SubjectRepository = {
+  subscribeSubjects: (userId, onChange) =>
+    onSnapshot(collection(getDb(), `users/${userId}/subjects`), (snapshot) => {
+      onChange(snapshot.docs
+        .map(d => ({ ...d.data(), id: d.id }) as SubjectDefinition)
+        .sort((a, b) => a.name.localeCompare(b.name)));
+    }),
+
+  saveSubject: async (userId, { id, ...subject }) => {
+    await setDoc(doc(getDb(), `users/${userId}/subjects/${id}`), withoutUndefined(subject));
+  },
+
+  deleteSubject: async (userId, subjectId) => {
+    await deleteDoc(doc(getDb(), `users/${userId}/subjects/${subjectId}`));
+  },
+};
+
+const attachments: AttachmentRepository = {
+  upload: async (userId, chatId, attachment) => {
+    if (attachment.type !== 'image' || !isInlineImage(attachment.content)) return attachment;
+
+    const path = `users/${userId}/chats/${chatId}/${crypto.randomUUID()}-${attachment.fileName || 'image'}`;
+    const fileRef = storageRef(getFileStorage(), path);
+    await uploadString(fileRef, attachment.content, 'data_url');
+
+    return { ...attachment, content: '', storagePath: path, url: await getDownloadURL(fileRef) };
+  },
+
+  // Reading bytes back needs CORS enabled on the bucket (see README)
+  loadDataUrl: async (attachment) => {
+    if (!attachment.storagePath) return attachment.content;
+    return blobToDataUrl(await getBlob(storageRef(getFileStorage(), attachment.storagePath)));
+  },
+
+  getDisplayUrl: async (attachment) => attachment.url || attachment.content,
+};
+
+const usage: UsageRepository = {
+  recordUsage: async (userId, records) => {
+    const batch = writeBatch(getDb());
+    records.forEach(record => batch.set(doc(getDb(), `users/${userId}/usage/${record.id}`), withoutUndefined(record)));
+    await batch.commit();
+  },
+
+  loadUsage: async (userId, since) => {
+    const q = query(collection(getDb(), `users/${userId}/usage`), where('timestamp', '>=', since), orderBy('timestamp', 'asc'));
+    return (await getDocs(q)).docs.map(d => d.data() as UsageRecord);
+  },
+};
+
+export const createFirestoreStorage = (): StorageAdapter => ({ chats, attachments, quizzes, flashcards, subjects, feedback, usage });
@@ -0,0 +1,7 @@
+import { storageBackend } from '../../firebase';
+import { createFirestoreStorage } from './firestoreStorage';
+import { createIndexedDbStorage } from './indexedDbStorage';
+import { StorageAdapter } from './types';
+
+// Chosen once at startup from VITE_STORAGE_BACKEND (see firebase.ts)
+export const storage: StorageAdapter = storageBackend === 'indexeddb' ? createIndexedDbStorage() : createFirestoreStorage();
@@ -0,0 +1,292 @@
+import { ChatSession, FeedbackEntry, Flashcard, FlashcardDeck, Message, QuizAttempt, SubjectDefinition, Timestamp, UsageRecord } from '../../types';
+import { AttachmentRepository, ChatRepository, FeedbackRepository, FlashcardRepository, QuizRepository, StorageAdapter, SubjectRepository, UsageRepository } from './types';
+import { blobToDataUrl, dataUrlToBlob, isInlineImage } from './blobUtils';
+import { normalizeMessage } from './normalize';
+
+// Everything lives in one browser database; records carry userId/chatId/deckId for indexed lookups.
+const DB_NAME = 'omnitutor';
+const DB_VERSION = 5;
+
+type StoreName = 'chats' | 'messages' | 'feedback' | 'quizAttempts' | 'decks' | 'cards' | 'attachments' | 'subjects' | 'usage';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const database = request.result;
+        if (event.oldVersion < 1) {
+          database.createObjectStore('chats', { keyPath: 'id' }).createIndex('userId', 'userId');
+          database.createObjectStore('messages', { keyPath: 'id' }).createIndex('chatId', 'chatId');
+          database.createObjectStore('feedback', { keyPath: 'id' });
+          database.createObjectStore('quizAttempts', { keyPath: 'id' }).createIndex('quizKey', ['userId', 'quizId']);
+          database.createObjectStore('decks', { keyPath: 'id' }).createIndex('userId', 'userId');
+          database.createObjectStore('cards', { keyPath: 'id' }).createIndex('deckId', 'deckId');
+        }
+        if (event.oldVersion < 2) {
+          database.createObjectStore('attachments', { keyPath: 'id' });
+        }
+        if (event.oldVersion < 3) {
+          database.createObjectStore('subjects', { keyPath: 'id' }).createIndex('userId', 'userId');
+        }
+        if (event.oldVersion < 4) {
+          request.transaction!.objectStore('feedback').createIndex('userId', 'userId');
+        }
+        if (event.oldVersion < 5) {
+          database.createObjectStore('usage', { keyPath: 'id' }).createIndex('userId', 'userId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const getAllByIndex = async <T>(storeName: StoreName, indexName: string, key: IDBValidKey): Promise<T[]> => {
+  const database = await openDatabase();
+  const store = database.transaction(storeName, 'readonly').objectStore(storeName);
+  return requestToPromise(store.index(indexName).getAll(key));
+};
+
+const getRecord = async <T>(storeName: StoreName, id: string): Promise<T | undefined> => {
+  const database = await openDatabase();
+  return requestToPromise(database.transaction(storeName, 'readonly').objectStore(storeName).get(id));
+};
+
+const putRecords = async (storeName: StoreName, records: object[]) => {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, 'readwrite');
+  records.forEach(record => transaction.objectStore(storeName).put(record));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  notify(storeName);
+};
+
+const updateRecord = async <T extends object>(storeName: StoreName, id: string, update: Partial<T>) => {
+  const existing = await getRecord<T>(storeName, id);
+  if (!existing) throw new Error(`${storeName}/${id} does not exist`);
+  await putRecords(storeName, [{ ...existing, ...stripUndefined(update) }]);
+};
+
+const deleteRecord = async (storeName: StoreName, id: string) => {
+  const database = await openDatabase();
+  const transaction = database.transaction(storeName, 'readwrite');
+  transaction.objectStore(storeName).delete(id);
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+  notify(storeName);
+};
+
+const stripUndefined = <T extends object>(data: T) =>
+  Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+
+// --- CHANGE NOTIFICATION ---
+// IndexedDB has no live queries, so writes notify subscribers of that store, which re-read.
+// A BroadcastChannel relays the same signal to other open tabs.
+const listeners = new Map<StoreName, Set<() => void>>();
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel('omnitutor-storage') : null;
+
+const notifyLocal = (storeName: StoreName) => listeners.get(storeName)?.forEach(listener => listener());
+
+const notify = (storeName: StoreName) => {
+  notifyLocal(storeName);
+  channel?.postMessage(storeName);
+};
+
+if (channel) channel.onmessage = (event) => notifyLocal(event.data as StoreName);
+
+const watch = (storeNames: StoreName[], load: () => Promise<void>) => {
+  let active = true;
+  const refresh = () => {
+    load().catch(err => active && console.error("IndexedDB read failed", err));
+  };
+  storeNames.forEach(name => {
+    if (!listeners.has(name)) listeners.set(name, new Set());
+    listeners.get(name)!.add(refresh);
+  });
+  refresh();
+  return () => {
+    active = false;
+    storeNames.forEach(name => listeners.get(name)?.delete(refresh));
+  };
+};
+
+// Keys of T that hold a date, so numeric timestamps can't be passed to byTime by mistake
+type DateKey<T> = { [K in keyof T]-?: T[K] extends Date | Timestamp | undefined ? K : never }[keyof T];
+
+const toTime = (value: Date | Timestamp | undefined) => (value instanceof Date ? value : value?.toDate())?.getTime() ?? 0;
+
+const byTime = <T>(key: DateKey<T>, direction: 1 | -1 = 1) => (a: T, b: T) =>
+  direction * (toTime(a[key] as Date | Timestamp | undefined) - toTime(b[key] as Date | Timestamp | undefined));
+
+// --- REPOSITORIES ---
+const readMessages = async (chatId: string): Promise<Message[]> => {
+  const messages = await getAllByIndex<Message & { chatId: string }>('messages', 'chatId', chatId);
+  return messages.sort(byTime<Message>('timestamp')).map(({ chatId: _chatId, ...message }) => normalizeMessage(message));
+};
+
+const chats: ChatRepository = {
+  subscribeSessions: (userId, onChange) =>
+    watch(['chats'], async () => {
+      const sessions = await getAllByIndex<ChatSession>('chats', 'userId', userId);
+      onChange(sessions.sort(byTime<ChatSession>('updatedAt', -1)));
+    }),
+
+  subscribeMessages: (_userId, chatId, onChange) =>
+    watch(['messages'], async () => onChange(await readMessages(chatId))),
+
+  loadMessages: async (_userId, chatId) => readMessages(chatId),
+
+  createChat: async (userId, subject) => {
+    const now = new Date();
+    const id = crypto.randomUUID();
+    await putRecords('chats', [{ id, subject, title: '', userId, createdAt: now, updatedAt: now }]);
+    return id;
+  },
+
+  updateChat: async (_userId, chatId, data) => {
+    await updateRecord<ChatSession>('chats', chatId, data);
+  },
+
+  addMessage: async (_userId, chatId, message, chatUpdate = {}) => {
+    const id = crypto.randomUUID();
+    const now = new Date();
+    await putRecords('messages', [{ ...stripUndefined(message), id, chatId, timestamp: now }]);
+    await updateRecord<ChatSession>('chats', chatId, { ...chatUpdate, updatedAt: now });
+    return id;
+  },
+
+  updateMessage: async (_userId, chatId, messageId, update) => {
+    await updateRecord<Message>('messages', messageId, update);
+    await updateRecord<ChatSession>('chats', chatId, { updatedAt: new Date() });
+  },
+};
+
+// Local mode has a single user, so allUsers changes nothing
+const feedback: FeedbackRepository = {
+  recordFeedback: async (userId, entry) => {
+    await putRecords('feedback', [{ ...entry, id: `${userId}:${entry.messageId}`, userId, createdAt: new Date() }]);
+  },
+
+  loadFeedback: async (userId) => {
+    const entries = await getAllByIndex<FeedbackEntry & { id: string }>('feedback', 'userId', userId);
+    // Older records predate the per-message format
+    return entries.filter(entry => entry.chatId).map(({ id: _id, ...entry }) => entry);
+  },
+};
+
+const quizzes: QuizRepository = {
+  subscribeAttempts: (userId, quizId, onChange) =>
+    watch(['quizAttempts'], async () => {
+      const attempts = await getAllByIndex<QuizAttempt>('quizAttempts', 'quizKey', [userId, quizId]);
+      onChange(attempts.sort(byTime<QuizAttempt>('completedAt')));
+    }),
+
+  addAttempt: async (userId, attempt) => {
+    await putRecords('quizAttempts', [{ ...attempt, id: crypto.randomUUID(), userId, completedAt: new Date() }]);
+  },
+};
+
+const flashcards: FlashcardRepository = {
+  subscribeDecks: (userId, onChange) =>
+    watch(['decks', 'cards'], async () => {
+      const decks = await getAllByIndex<Omit<FlashcardDeck, 'cards'>>('decks', 'userId', userId);
+      const withCards = await Promise.all(decks.sort(byTime<Omit<FlashcardDeck, 'cards'>>('createdAt', -1)).map(async deck => ({
+        ...deck,
+        cards: await getAllByIndex<Flashcard>('cards', 'deckId', deck.id)
+      })));
+      onChange(withCards);
+    }),
+
+  createDeck: async (userId, deck, cards) => {
+    const id = crypto.randomUUID();
+    await putRecords('decks', [{ ...stripUndefined(deck), id, userId, createdAt: new Date() }]);
+    await putRecords('cards', cards.map(card => ({ ...card, id: crypto.randomUUID(), deckId: id })));
+    return id;
+  },
+
+  updateCard: async (_userId, _deckId, cardId, update) => {
+    await updateRecord<Flashcard>('cards', cardId, { ...update, lastReviewedAt: new Date() } as Partial<Flashcard>);
+  },
+};
+
+const subjects: SubjectRepository = {
+  subscribeSubjects: (userId, onChange) =>
+    watch(['subjects'], async () => {
+      const records = await getAllByIndex<SubjectDefinition & { userId: string }>('subjects', 'userId', userId);
+      onChange(records
+        .map(({ userId: _userId, ...subject }) => subject)
+        .sort((a, b) => a.name.localeCompare(b.name)));
+    }),
+
+  saveSubject: async (userId, subject) => {
+    await putRecords('subjects', [{ ...stripUndefined(subject), userId }]);
+  },
+
+  deleteSubject: async (_userId, subjectId) => {
+    await deleteRecord('subjects', subjectId);
+  },
+};
+
+// Images are kept as Blobs; storagePath is "idb:{id}"
+const objectUrls = new Map<string, string>();
+
+const loadAttachmentBlob = async (attachment: { storagePath?: string }): Promise<Blob | null> => {
+  if (!attachment.storagePath?.startsWith('idb:')) return null;
+  const record = await getRecord<{ blob: Blob }>('attachments', attachment.storagePath.slice(4));
+  return record?.blob || null;
+};
+
+const attachments: AttachmentRepository = {
+  upload: async (userId, chatId, attachment) => {
+    if (attachment.type !== 'image' || !isInlineImage(attachment.content)) return attachment;
+
+    const id = crypto.randomUUID();
+    await putRecords('attachments', [{ id, userId, chatId, fileName: attachment.fileName, blob: await dataUrlToBlob(attachment.content) }]);
+    return { ...attachment, content: '', storagePath: `idb:${id}` };
+  },
+
+  loadDataUrl: async (attachment) => {
+    const blob = await loadAttachmentBlob(attachment);
+    return blob ? blobToDataUrl(blob) : attachment.content;
+  },
+
+  getDisplayUrl: async (attachment) => {
+    if (!attachment.storagePath) return attachment.content;
+    if (!objectUrls.has(attachment.storagePath)) {
+      const blob = await loadAttachmentBlob(attachment);
+      if (!blob) return '';
+      objectUrls.set(attachment.storagePath, URL.createObjectURL(blob));
+    }
+    return objectUrls.get(attachment.storagePath)!;
+  },
+};
+
+const usage: UsageRepository = {
+  recordUsage: async (userId, records) => {
+    await putRecords('usage', records.map(record => ({ ...record, userId })));
+  },
+
+  loadUsage: async (userId, since) => {
+    const records = await getAllByIndex<UsageRecord & { userId: string }>('usage', 'userId', userId);
+    return records
+      .filter(record => record.timestamp >= since)
+      .map(({ userId: _userId, ...record }) => record)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  },
+};
+
+export const createIndexedDbStorage = (): StorageAdapter => ({ chats, attachments, quizzes, flashcards, subjects, feedback, usage });
@@ -0,0 +1,9 @@
+import { Attachment, Message } from '../../types';
+
+// Messages written before multi-file support stored a single `attachment` field
+type StoredMessage = Message & { attachment?: Attachment };
+
+export const normalizeMessage = ({ attachment, ...message }: StoredMessage): Message => ({
+  ...message,
+  attachments: message.attachments || (attachment ? [attachment] : undefined),
+});
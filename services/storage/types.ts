@@ -0,0 +1,73 @@
+import { Attachment, ChatSession, FeedbackEntry, Flashcard, FlashcardDeck, Message, QuizAttempt, SubjectDefinition, SubjectId, UsageRecord } from '../../types';
+
+export type Unsubscribe = () => void;
+
+export type NewMessage = Omit<Message, 'id' | 'timestamp' | 'isStreaming'>;
+
+export type MessageUpdate = Partial<Pick<Message, 'content' | 'truncated' | 'practice' | 'rating'>>;
+
+export type ChatUpdate = Partial<Pick<ChatSession, 'subject' | 'title' | 'summary' | 'activeBranches' | 'mode'>>;
+
+export interface ChatRepository {
+    subscribeSessions: (userId: string, onChange: (sessions: ChatSession[]) => void) => Unsubscribe;
+    subscribeMessages: (userId: string, chatId: string, onChange: (messages: Message[]) => void) => Unsubscribe;
+    // One-off read of a whole thread (used to build the search index)
+    loadMessages: (userId: string, chatId: string) => Promise<Message[]>;
+    createChat: (userId: string, subject: SubjectId) => Promise<string>;
+    updateChat: (userId: string, chatId: string, data: ChatUpdate) => Promise<void>;
+    // Also bumps the chat's updatedAt, applying chatUpdate in the same step
+    addMessage: (userId: string, chatId: string, message: NewMessage, chatUpdate?: ChatUpdate) => Promise<string>;
+    updateMessage: (userId: string, chatId: string, messageId: string, update: MessageUpdate) => Promise<void>;
+}
+
+export interface FeedbackRepository {
+    // Creates or replaces the user's feedback on feedback.messageId
+    recordFeedback: (userId: string, feedback: FeedbackEntry) => Promise<void>;
+    // allUsers reads everyone's feedback where the backend allows it (Firestore rules must grant it)
+    loadFeedback: (userId: string, allUsers: boolean) => Promise<FeedbackEntry[]>;
+}
+
+export interface QuizRepository {
+    subscribeAttempts: (userId: string, quizId: string, onChange: (attempts: QuizAttempt[]) => void) => Unsubscribe;
+    addAttempt: (userId: string, attempt: Omit<QuizAttempt, 'id' | 'completedAt'>) => Promise<void>;
+}
+
+export interface FlashcardRepository {
+    subscribeDecks: (userId: string, onChange: (decks: FlashcardDeck[]) => void) => Unsubscribe;
+    createDeck: (userId: string, deck: Pick<FlashcardDeck, 'title' | 'subject' | 'chatId'>, cards: Omit<Flashcard, 'id'>[]) => Promise<string>;
+    updateCard: (userId: string, deckId: string, cardId: string, update: Partial<Omit<Flashcard, 'id'>>) => Promise<void>;
+}
+
+// User-defined subjects; the built-in ones live in services/subjects.ts
+export interface SubjectRepository {
+    subscribeSubjects: (userId: string, onChange: (subjects: SubjectDefinition[]) => void) => Unsubscribe;
+    // Creates or replaces the subject with this id
+    saveSubject: (userId: string, subject: SubjectDefinition) => Promise<void>;
+    deleteSubject: (userId: string, subjectId: string) => Promise<void>;
+}
+
+// Optional copy of the local usage log, kept with the user's data
+export interface UsageRepository {
+    recordUsage: (userId: string, records: UsageRecord[]) => Promise<void>;
+    // Records with a timestamp at or after `since` (epoch milliseconds)
+    loadUsage: (userId: string, since: number) => Promise<UsageRecord[]>;
+}
+
+// Images are stored outside the message documents; messages only keep a reference
+export interface AttachmentRepository {
+    upload: (userId: string, chatId: string, attachment: Attachment) => Promise<Attachment>;
+    // Data URL for sending the image to a model
+    loadDataUrl: (attachment: Attachment) => Promise<string>;
+    // URL usable in an <img> tag
+    getDisplayUrl: (attachment: Attachment) => Promise<string>;
+}
+
+export interface StorageAdapter {
+    chats: ChatRepository;
+    attachments: AttachmentRepository;
+    quizzes: QuizRepository;
+    flashcards: FlashcardRepository;
+    subjects: SubjectRepository;
+    feedback: FeedbackRepository;
+    usage: UsageRepository;
+}
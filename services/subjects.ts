@@ -0,0 +1,39 @@
+import { AttachmentKind, Subject, SubjectDefinition, SubjectId } from '../types';
+
+const CHEMISTRY_PROMPT = 'Write chemical formulas, reactions and equilibria with mhchem inside math delimiters, e.g. $\\ce{2H2 + O2 -> 2H2O}$ or $\\ce{N2 + 3H2 <=> 2NH3}$, and quantities with units as $\\pu{25 kJ mol-1}$. ' +
+  'To show a molecular structure, put its SMILES in a fenced code block tagged smiles, one molecule per line with an optional name after a |, e.g.\n```smiles\nCC(=O)Oc1ccccc1C(=O)O | Aspirin\n```';
+
+export const BUILT_IN_SUBJECTS: SubjectDefinition[] = [
+  { id: Subject.MATH, name: 'Math', icon: 'calculate', systemPrompt: '', latex: true, attachmentKinds: ['images'], builtIn: true },
+  { id: Subject.PHYSICS, name: 'Physics', icon: 'science', systemPrompt: '', latex: true, attachmentKinds: ['images'], builtIn: true },
+  { id: Subject.CHEMISTRY, name: 'Chemistry', icon: 'biotech', systemPrompt: CHEMISTRY_PROMPT, latex: true, attachmentKinds: ['images'], builtIn: true },
+  { id: Subject.HISTORY, name: 'History', icon: 'history_edu', systemPrompt: '', latex: false, attachmentKinds: [], builtIn: true },
+  { id: Subject.BIOLOGY, name: 'Biology', icon: 'eco', systemPrompt: '', latex: false, attachmentKinds: ['images'], builtIn: true },
+  { id: Subject.LITERATURE, name: 'Literature', icon: 'book_2', systemPrompt: '', latex: false, attachmentKinds: [], builtIn: true },
+  { id: Subject.CODING, name: 'Coding', icon: 'code', systemPrompt: '', latex: false, attachmentKinds: ['code'], builtIn: true },
+  { id: Subject.GENERAL, name: 'General', icon: 'school', systemPrompt: '', latex: false, attachmentKinds: [], builtIn: true },
+];
+
+export const CODE_EXTENSIONS = ['.py', '.js', '.html', '.css', '.ts', '.json'];
+
+export const ATTACHMENT_KIND_LABELS: Record<AttachmentKind, string> = {
+  images: 'Images',
+  code: `Code (${CODE_EXTENSIONS.join(', ')})`,
+};
+
+// Icons offered when creating a subject; any Material Symbols name can be typed in as well
+export const SUBJECT_ICONS = [
+  'school', 'calculate', 'science', 'biotech', 'eco', 'history_edu', 'book_2', 'code',
+  'payments', 'public', 'translate', 'music_note', 'palette', 'psychology', 'gavel', 'sports_soccer',
+];
+
+const fallbackSubject = BUILT_IN_SUBJECTS.find(subject => subject.id === Subject.GENERAL)!;
+
+// Chats can outlive the custom subject they were started in; those fall back to General
+export const findSubject = (subjects: SubjectDefinition[], id: SubjectId): SubjectDefinition =>
+  subjects.find(subject => subject.id === id) || { ...fallbackSubject, id };
+
+export const getBuiltInSubject = (id: SubjectId): SubjectDefinition => findSubject(BUILT_IN_SUBJECTS, id);
+
+export const describeAllowedFiles = (subject: SubjectDefinition): string =>
+  ['.pdf, .docx, .txt, .md, .csv', ...subject.attachmentKinds.map(kind => ATTACHMENT_KIND_LABELS[kind])].join('; ');
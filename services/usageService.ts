@@ -0,0 +1,184 @@
+import { ProviderErrorKind, UsageLimit, UsageRecord } from '../types';
+
+// Kept in localStorage like the other preferences; every write fires USAGE_EVENT so open views refresh
+const LOG_KEY = 'usageLog';
+const LIMITS_KEY = 'usageLimits';
+const SYNC_KEY = 'syncUsage';
+export const USAGE_EVENT = 'usage';
+
+const RETENTION_DAYS = 30;
+const MAX_RECORDS = 3000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of a soft limit at which the user gets warned
+export const LIMIT_WARNING_RATIO = 0.8;
+
+export const loadUsageLog = (): UsageRecord[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LOG_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+export const logUsage = (records: UsageRecord[]) => {
+  if (records.length === 0) return;
+  const since = Date.now() - RETENTION_DAYS * DAY_MS;
+  const log = [...loadUsageLog(), ...records].filter(record => record.timestamp >= since).slice(-MAX_RECORDS);
+  try {
+    localStorage.setItem(LOG_KEY, JSON.stringify(log));
+  } catch (quotaError) {
+    console.warn("Could not save usage log", quotaError);
+  }
+  window.dispatchEvent(new Event(USAGE_EVENT));
+};
+
+export const clearUsageLog = () => {
+  localStorage.removeItem(LOG_KEY);
+  window.dispatchEvent(new Event(USAGE_EVENT));
+};
+
+// Also store usage with the signed-in user's data, so it can be looked at across devices
+export const isUsageSyncEnabled = () => localStorage.getItem(SYNC_KEY) === 'true';
+
+export const setUsageSyncEnabled = (enabled: boolean) => {
+  localStorage.setItem(SYNC_KEY, String(enabled));
+  window.dispatchEvent(new Event(USAGE_EVENT));
+};
+
+export const getUsageLimits = (): Record<string, UsageLimit> => {
+  try {
+    return JSON.parse(localStorage.getItem(LIMITS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveUsageLimit = (providerId: string, limit: UsageLimit) => {
+  const limits = getUsageLimits();
+  if (limit.dailyRequests || limit.dailyTokens) limits[providerId] = limit;
+  else delete limits[providerId];
+  localStorage.setItem(LIMITS_KEY, JSON.stringify(limits));
+  window.dispatchEvent(new Event(USAGE_EVENT));
+};
+
+export const USAGE_ERROR_LABELS: Record<ProviderErrorKind, string> = {
+  rate_limit: 'Rate limited (429)',
+  auth: 'Bad or missing API key',
+  network: 'Network error',
+  content_blocked: 'Blocked by safety filters',
+  server: 'Server error',
+  bad_request: 'Request rejected',
+  empty: 'Empty response',
+  other: 'Other error',
+};
+
+// --- AGGREGATION ---
+
+const startOfDay = (timestamp: number) => {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+export const recordTokens = (record: UsageRecord) => record.promptTokens + record.completionTokens;
+
+export interface ProviderDay {
+  day: number; // Local midnight
+  providerId: string;
+  requests: number;
+  tokens: number;
+  rateLimited: number;
+}
+
+// Newest day first
+export const dailyTotals = (records: UsageRecord[]): ProviderDay[] => {
+  const totals = new Map<string, ProviderDay>();
+  records.forEach(record => {
+    const day = startOfDay(record.timestamp);
+    const key = `${day}:${record.providerId}`;
+    const total = totals.get(key) || { day, providerId: record.providerId, requests: 0, tokens: 0, rateLimited: 0 };
+    total.requests++;
+    total.tokens += recordTokens(record);
+    if (record.errorType === 'rate_limit') total.rateLimited++;
+    totals.set(key, total);
+  });
+  return Array.from(totals.values()).sort((a, b) => b.day - a.day || a.providerId.localeCompare(b.providerId));
+};
+
+export interface UsageSummary {
+  requests: number; // Answers asked for, however many providers were tried
+  attempts: number; // Calls to a provider
+  failedRequests: number;
+  fallbackRate: number; // Share of requests not answered by the first provider tried
+  rateLimitRate: number; // Share of attempts that got a 429
+  errors: Partial<Record<ProviderErrorKind, number>>;
+  tokens: number;
+  estimatedTokens: boolean; // Some counts are estimates
+  avgLatencyMs: number | null; // Of successful attempts
+}
+
+export const summarizeUsage = (records: UsageRecord[]): UsageSummary => {
+  const byRequest = new Map<string, UsageRecord[]>();
+  records.forEach(record => byRequest.set(record.requestId, [...(byRequest.get(record.requestId) || []), record]));
+  const requests = Array.from(byRequest.values());
+  const answered = requests.filter(attempts => attempts.some(attempt => attempt.ok));
+  const fellBack = answered.filter(attempts => attempts.find(attempt => attempt.ok)!.providerId !== attempts[0].providerId);
+  const successes = records.filter(record => record.ok);
+
+  const errors: Partial<Record<ProviderErrorKind, number>> = {};
+  records.forEach(record => {
+    if (record.errorType) errors[record.errorType] = (errors[record.errorType] || 0) + 1;
+  });
+
+  return {
+    requests: requests.length,
+    attempts: records.length,
+    failedRequests: requests.length - answered.length,
+    fallbackRate: requests.length > 0 ? fellBack.length / requests.length : 0,
+    rateLimitRate: records.length > 0 ? (errors.rate_limit || 0) / records.length : 0,
+    errors,
+    tokens: records.reduce((sum, record) => sum + recordTokens(record), 0),
+    estimatedTokens: records.some(record => record.estimatedTokens),
+    avgLatencyMs: successes.length > 0 ? successes.reduce((sum, record) => sum + record.latencyMs, 0) / successes.length : null,
+  };
+};
+
+// Start of a range of `days` calendar days ending today
+export const rangeStart = (days: number, now = Date.now()) => startOfDay(now) - (days - 1) * DAY_MS;
+
+export const recordsSince = (records: UsageRecord[], days: number, now = Date.now()) => {
+  const since = rangeStart(days, now);
+  return records.filter(record => record.timestamp >= since);
+};
+
+export interface LimitWarning {
+  providerId: string;
+  metric: 'requests' | 'tokens';
+  used: number;
+  limit: number;
+}
+
+// Today's usage that has reached LIMIT_WARNING_RATIO of a soft limit
+export const getLimitWarnings = (records: UsageRecord[], limits: Record<string, UsageLimit>, now = Date.now()): LimitWarning[] => {
+  const today = recordsSince(records, 1, now);
+  return Object.entries(limits).flatMap(([providerId, limit]) => {
+    const own = today.filter(record => record.providerId === providerId);
+    const usage = [
+      { metric: 'requests' as const, used: own.length, limit: limit.dailyRequests },
+      { metric: 'tokens' as const, used: own.reduce((sum, record) => sum + recordTokens(record), 0), limit: limit.dailyTokens },
+    ];
+    return usage
+      .filter(entry => entry.limit && entry.used >= entry.limit * LIMIT_WARNING_RATIO)
+      .map(entry => ({ providerId, metric: entry.metric, used: entry.used, limit: entry.limit! }));
+  });
+};
+
+// Each attempt counts against the provider's quota, so requests are shown as calls
+export const formatLimitWarning = (warning: LimitWarning, providerLabel: string) => {
+  const unit = warning.metric === 'requests' ? 'calls' : 'tokens';
+  const percent = Math.round((warning.used / warning.limit) * 100);
+  return percent >= 100
+    ? `You've reached today's ${providerLabel} limit of ${warning.limit.toLocaleString()} ${unit}.`
+    : `You've used ${percent}% of today's ${providerLabel} limit (${warning.used.toLocaleString()} of ${warning.limit.toLocaleString()} ${unit}).`;
+};
@@ -14,25 +14,148 @@ export interface Message {
   role: Role;
   content: string;
   timestamp: Date | Timestamp;
+  parentId?: string | null; // Previous message on this branch; null for the first message
   isStreaming?: boolean;
-  attachment?: Attachment;
+  attachments?: Attachment[];
+  quiz?: Quiz;
+  practice?: PracticeProblem;
+  deckId?: string;
+  hintLevel?: number; // On "next hint" requests: how much help was asked for
+  truncated?: boolean; // The answer stopped at the output length limit
+  source?: ResponseSource; // Tutor answers: which provider and model wrote it
+  rating?: MessageRating; // The student's thumbs up/down
+}
+
+export interface ResponseSource {
+  providerId: string;
+  model: string;
+  latencyMs: number; // From sending the request to the end of the answer
+}
+
+export type FeedbackReason = 'wrong_math' | 'wrong_facts' | 'broken_latex' | 'too_long' | 'too_short' | 'unclear' | 'other';
+
+export interface MessageRating {
+  value: 'up' | 'down';
+  reason?: FeedbackReason; // Only for thumbs down
+}
+
+// One per user and message; re-rating replaces it
+export interface FeedbackEntry {
+  messageId: string;
+  chatId: string;
+  subject: SubjectId;
+  rating: 'up' | 'down';
+  reason?: FeedbackReason;
+  providerId?: string;
+  model?: string;
+  latencyMs?: number;
+  content: string;
+  userId?: string; // Filled in when read back
+  createdAt?: Date | Timestamp;
 }
 
 export interface Attachment {
-  content: string; // Base64 or text content
+  content: string; // Base64 or text content ('' once an image has been uploaded)
   type: 'image' | 'text';
   mimeType?: string;
   fileName?: string;
+  storagePath?: string; // Location of an uploaded image in the storage backend
+  url?: string; // Download URL of an uploaded image, when the backend provides one
 }
 
-export interface ChatSession {
+export interface QuizQuestion {
+  question: string;
+  options: string[];
+  correctIndex: number;
+  explanation: string;
+}
+
+export interface Quiz {
+  id: string;
+  title: string;
+  subject: SubjectId;
+  questions: QuizQuestion[];
+}
+
+// What a practice problem's answer is checked against
+export type PracticeAnswer =
+  | { kind: 'numeric'; value: number; unit?: string; tolerance?: number } // tolerance is relative (0.01 = 1%)
+  | { kind: 'expression'; expression: string }
+  | { kind: 'choice'; options: string[]; correctIndex: number };
+
+export interface PracticeAttempt {
+  response: string; // What the student typed, or the chosen option's index
+  correct: boolean;
+  feedback: string; // The checker's verdict, e.g. "Include the unit"
+}
+
+export interface PracticeProblem {
+  id: string;
+  subject: SubjectId;
+  question: string;
+  answer: PracticeAnswer;
+  solution: string;
+  attempts?: PracticeAttempt[];
+}
+
+export interface QuizAttempt {
+  id: string;
+  quizId: string;
+  title: string;
+  subject: SubjectId;
+  answers: number[];
+  score: number;
+  total: number;
+  completedAt: Date | Timestamp;
+}
+
+export interface Flashcard {
   id: string;
-  subject: Subject;
+  front: string;
+  back: string;
+  // SM-2 scheduling state
+  ease: number;
+  interval: number; // days
+  repetitions: number;
+  due: Date | Timestamp;
+}
+
+export interface FlashcardDeck {
+  id: string;
+  title: string;
+  subject: SubjectId;
+  chatId?: string;
+  createdAt: Date | Timestamp;
+  cards: Flashcard[];
+}
+
+// Rolling summary of the turns that no longer fit in the model's context
+export interface ChatSummary {
+  text: string;
+  throughMessageId: string; // Last message folded into the summary
+}
+
+export interface ChatSession {
+  id: string; // Thread key: users/{uid}/chats/{id}
+  subject: SubjectId;
+  title?: string;
+  summary?: ChatSummary;
+  activeBranches?: Record<string, string>; // Selected child message id per parent id ('root' for the first message)
+  mode?: PedagogyMode; // Defaults to EXPLAIN
   createdAt: Date | Timestamp;
-  messages: Message[];
+  updatedAt?: Date | Timestamp;
+  messages?: Message[];
   userId: string;
 }
 
+// How the tutor responds: full explanations, guiding questions, graded hints or feedback on the student's attempt
+export enum PedagogyMode {
+  EXPLAIN = 'explain',
+  SOCRATIC = 'socratic',
+  HINTS = 'hints',
+  CHECK = 'check'
+}
+
 export enum Subject {
   MATH = 'Math',
   PHYSICS = 'Physics',
@@ -44,8 +167,58 @@ export enum Subject {
   GENERAL = 'General'
 }
 
-export interface GeminiConfig {
-  temperature?: number;
-  topK?: number;
-  topP?: number;
-}
\ No newline at end of file
+// Built-in subjects use their Subject value as id; custom subjects get a generated id
+export type SubjectId = Subject | string;
+
+// File types a subject accepts on top of documents (.pdf, .docx, .txt, .md, .csv), which every subject takes
+export type AttachmentKind = 'images' | 'code';
+
+export interface SubjectDefinition {
+  id: SubjectId;
+  name: string;
+  icon: string; // Material Symbols name
+  systemPrompt: string; // Added to the tutor's instructions
+  latex: boolean;
+  attachmentKinds: AttachmentKind[];
+  preferredProvider?: string; // Provider id tried first (see services/ai/registry.ts)
+  preferredModel?: string; // Model id sent to the preferred provider instead of its configured one
+  builtIn?: boolean;
+}
+
+export type Verbosity = 'concise' | 'balanced' | 'detailed';
+
+// Per-subject model parameters chosen in Settings > AI
+export interface GenerationSettings {
+  provider?: string; // Provider id; unset keeps the subject's preferred provider or the default chain
+  model?: string; // Model id sent to that provider instead of its configured one
+  temperature: number;
+  maxOutputTokens: number;
+  verbosity: Verbosity;
+}
+export type UsageFeature = 'chat' | 'summary' | 'quiz' | 'flashcards' | 'practice';
+
+// Why a call to an AI provider failed; see services/ai/resilience.ts
+export type ProviderErrorKind = 'rate_limit' | 'auth' | 'network' | 'content_blocked' | 'server' | 'bad_request' | 'empty' | 'other';
+
+// One per provider attempt; the attempts behind one answer share a requestId
+export interface UsageRecord {
+  id: string;
+  requestId: string;
+  feature: UsageFeature;
+  providerId: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedTokens: boolean; // The provider didn't report usage, so the counts are estimates
+  latencyMs: number;
+  ok: boolean;
+  errorType?: ProviderErrorKind;
+  fallbackReason?: ProviderErrorKind; // Why the previous provider in the chain was given up on
+  timestamp: number; // Epoch milliseconds
+}
+
+// Soft daily limits per provider, set in Settings > Usage; crossing 80% shows a warning
+export interface UsageLimit {
+  dailyRequests?: number;
+  dailyTokens?: number;
+}
@@ -1,7 +1,39 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { copyFile, mkdir, readFile } from 'fs/promises';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Serves the Python runtime at /pyodide/, where the code sandbox loads it from (services/codeSandbox.ts).
+// The sandbox has an opaque origin, so the files need CORS headers; a production host must add them too.
+const PYODIDE_FILES = ['pyodide.mjs', 'pyodide-lock.json', 'pyodide.asm.mjs', 'pyodide.asm.wasm', 'python_stdlib.zip'];
+const PYODIDE_DIR = path.resolve(__dirname, 'node_modules/pyodide');
+const CONTENT_TYPES: Record<string, string> = {
+    '.mjs': 'text/javascript',
+    '.json': 'application/json',
+    '.wasm': 'application/wasm',
+    '.zip': 'application/zip',
+};
+
+const servePyodide = (): Plugin => ({
+    name: 'serve-pyodide',
+    configureServer(server) {
+        server.middlewares.use('/pyodide', async (req, res, next) => {
+            const file = path.basename((req.url || '').split('?')[0]);
+            if (!PYODIDE_FILES.includes(file)) return next();
+            res.setHeader('Access-Control-Allow-Origin', '*');
+            res.setHeader('Content-Type', CONTENT_TYPES[path.extname(file)]);
+            res.end(await readFile(path.join(PYODIDE_DIR, file)));
+        });
+    },
+    async writeBundle(options) {
+        const pyodideDir = path.join(options.dir || 'dist', 'pyodide');
+        await mkdir(pyodideDir, { recursive: true });
+        for (const file of PYODIDE_FILES) {
+            await copyFile(path.join(PYODIDE_DIR, file), path.join(pyodideDir, file));
+        }
+    }
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +41,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), servePyodide()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY || env.VITE_GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || env.VITE_GEMINI_API_KEY)